@@ -1,6 +1,18 @@
 import React from "react";
 import { render, act } from "@testing-library/react";
-import { Shoy, useGet, useApply } from "../index";
+import { renderToString } from "react-dom/server";
+import {
+  Shoy,
+  useGet,
+  useApply,
+  useActionStatus,
+  useReady,
+  derive,
+  shallowEqual,
+  createStoreContext,
+  ShoyProvider,
+  useStore,
+} from "../index";
 
 describe("useGet", () => {
   it("should return initial state value", () => {
@@ -137,6 +149,149 @@ describe("useGet", () => {
     expect(getByTestId("multiplier").textContent).toBe("3");
     expect(getByTestId("result").textContent).toBe("30");
   });
+
+  it("should not miss updates committed before effects run", () => {
+    const store = new Shoy({ count: 0 });
+
+    function Reader() {
+      const count = useGet(store, (s) => s.count);
+      return <div data-testid="count">{count}</div>;
+    }
+
+    function Writer() {
+      React.useLayoutEffect(() => {
+        store.apply({ count: 1 });
+      }, []);
+      return null;
+    }
+
+    const { getByTestId } = render(
+      <>
+        <Reader />
+        <Writer />
+      </>,
+    );
+    expect(getByTestId("count").textContent).toBe("1");
+  });
+
+  it("should keep the previous result when equalityFn matches", () => {
+    const store = new Shoy({
+      todos: [
+        { id: 1, done: false },
+        { id: 2, done: true },
+      ],
+      filter: "all",
+    });
+    let renders = 0;
+
+    function OpenTodos() {
+      const open = useGet(
+        store,
+        (s) => s.todos.filter((todo) => !todo.done),
+        shallowEqual,
+      );
+      renders++;
+      return <div data-testid="open">{open.length}</div>;
+    }
+
+    const { getByTestId } = render(<OpenTodos />);
+    expect(renders).toBe(1);
+
+    act(() => {
+      store.apply({ filter: "open" });
+    });
+    expect(renders).toBe(1);
+
+    act(() => {
+      store.apply((s) => ({ todos: [...s.todos, { id: 3, done: false }] }));
+    });
+    expect(renders).toBe(2);
+    expect(getByTestId("open").textContent).toBe("2");
+  });
+
+  it("should not read a snapshot for unrelated commits", () => {
+    const store = new Shoy({ count: 0, other: 0 });
+    const readHash = jest.spyOn(store, "currentHash", "get");
+
+    function TestComponent() {
+      const count = useGet(store, (s) => s.count);
+      return <div data-testid="count">{count}</div>;
+    }
+
+    const { getByTestId } = render(<TestComponent />);
+    readHash.mockClear();
+
+    act(() => {
+      store.apply({ other: 1 });
+    });
+    expect(readHash).not.toHaveBeenCalled();
+
+    act(() => {
+      store.apply({ count: 1 });
+    });
+    expect(readHash).toHaveBeenCalled();
+    expect(getByTestId("count").textContent).toBe("1");
+  });
+
+  it("should render on the server", () => {
+    const store = new Shoy({ count: 3 });
+
+    function TestComponent() {
+      const count = useGet(store, (s) => s.count);
+      return <div>{count}</div>;
+    }
+
+    expect(renderToString(<TestComponent />)).toBe("<div>3</div>");
+  });
+});
+
+describe("useGet with derived stores", () => {
+  it("should re-render when an input store changes", () => {
+    const session = new Shoy({ user: "Alice" });
+    const cart = new Shoy({ items: ["a"] });
+    const summary = derive(
+      [session, cart],
+      (s, c) => `${s.user}: ${c.items.length}`,
+    );
+
+    function TestComponent() {
+      const text = useGet(summary, (s) => s);
+      return <div data-testid="summary">{text}</div>;
+    }
+
+    const { getByTestId } = render(<TestComponent />);
+    expect(getByTestId("summary").textContent).toBe("Alice: 1");
+
+    act(() => {
+      cart.apply({ items: ["a", "b"] });
+    });
+    expect(getByTestId("summary").textContent).toBe("Alice: 2");
+  });
+});
+
+describe("hooks with slices", () => {
+  it("should read and update a slice", () => {
+    const store = new Shoy({ settings: { theme: "dark" }, count: 0 });
+    const settings = store.slice("settings");
+
+    function TestComponent() {
+      const theme = useGet(settings, (s) => s.theme);
+      const apply = useApply(settings);
+      return (
+        <button data-testid="theme" onClick={() => apply({ theme: "light" })}>
+          {theme}
+        </button>
+      );
+    }
+
+    const { getByTestId } = render(<TestComponent />);
+    act(() => {
+      getByTestId("theme").click();
+    });
+
+    expect(getByTestId("theme").textContent).toBe("light");
+    expect(store.current.settings.theme).toBe("light");
+  });
 });
 
 describe("useApply", () => {
@@ -218,6 +373,194 @@ describe("useApply", () => {
   });
 });
 
+describe("useActionStatus", () => {
+  it("should report pending and failed actions", async () => {
+    const onError = jest.fn();
+    const store = new Shoy({ items: [] as string[] }, { onError });
+    let fail: (error: Error) => void = () => {};
+
+    function TestComponent() {
+      const { pending, error } = useActionStatus(store, "load");
+      return (
+        <div data-testid="status">
+          {pending ? "loading" : error ? error.message : "idle"}
+        </div>
+      );
+    }
+
+    const { getByTestId } = render(<TestComponent />);
+    expect(getByTestId("status").textContent).toBe("idle");
+
+    let running: Promise<void> = Promise.resolve();
+    act(() => {
+      running = store.action(
+        () => new Promise<void>((_, reject) => (fail = reject)),
+        { name: "load" },
+      );
+    });
+    expect(getByTestId("status").textContent).toBe("loading");
+
+    await act(async () => {
+      fail(new Error("offline"));
+      await running.catch(() => {});
+    });
+    expect(getByTestId("status").textContent).toBe("offline");
+    expect(onError).toHaveBeenCalledWith(new Error("offline"), "action");
+  });
+});
+
+describe("useReady", () => {
+  it("should render the initialized state without a default first", async () => {
+    let resolve: (state: { count: number }) => void = () => {};
+    const store = Shoy.create(
+      () => new Promise<{ count: number }>((res) => (resolve = res)),
+    );
+    const rendered: number[] = [];
+
+    function Count() {
+      const count = useGet(store, (s) => s.count);
+      rendered.push(count);
+      return <div data-testid="count">{count}</div>;
+    }
+
+    function App() {
+      return useReady(store) ? <Count /> : <div data-testid="count">…</div>;
+    }
+
+    const { getByTestId } = render(<App />);
+    expect(getByTestId("count").textContent).toBe("…");
+
+    await act(async () => {
+      resolve({ count: 7 });
+      await store.ready;
+    });
+    expect(getByTestId("count").textContent).toBe("7");
+    expect(rendered).toEqual([7]);
+  });
+
+  it("should be ready at once for a constructed store", () => {
+    const store = new Shoy({ count: 0 });
+
+    function TestComponent() {
+      return <div data-testid="ready">{String(useReady(store))}</div>;
+    }
+
+    const { getByTestId } = render(<TestComponent />);
+    expect(getByTestId("ready").textContent).toBe("true");
+  });
+});
+
+describe("store context", () => {
+  interface Counter {
+    count: number;
+  }
+
+  it("should bind hooks to the nearest provider", () => {
+    const { Provider, useGet, useApply } = createStoreContext<Counter>();
+    const store = new Shoy<Counter>({ count: 0 });
+
+    function Count() {
+      const count = useGet((s) => s.count);
+      const apply = useApply();
+      return (
+        <button
+          data-testid="count"
+          onClick={() => apply((s) => ({ count: s.count + 1 }))}
+        >
+          {count}
+        </button>
+      );
+    }
+
+    const { getByTestId } = render(
+      <Provider store={store}>
+        <Count />
+      </Provider>,
+    );
+
+    act(() => getByTestId("count").click());
+    expect(getByTestId("count").textContent).toBe("1");
+    expect(store.current.count).toBe(1);
+  });
+
+  it("should isolate nested providers", () => {
+    const { Provider, useGet } = createStoreContext<Counter>();
+    const outer = new Shoy<Counter>({ count: 1 });
+    const inner = new Shoy<Counter>({ count: 2 });
+
+    function Count({ testId }: { testId: string }) {
+      return <div data-testid={testId}>{useGet((s) => s.count)}</div>;
+    }
+
+    const { getByTestId } = render(
+      <Provider store={outer}>
+        <Count testId="outer" />
+        <Provider store={inner}>
+          <Count testId="inner" />
+        </Provider>
+      </Provider>,
+    );
+
+    expect(getByTestId("outer").textContent).toBe("1");
+    expect(getByTestId("inner").textContent).toBe("2");
+
+    act(() => {
+      inner.apply({ count: 20 });
+    });
+    expect(getByTestId("outer").textContent).toBe("1");
+    expect(getByTestId("inner").textContent).toBe("20");
+  });
+
+  it("should render a fresh store per server request", () => {
+    const { Provider, useGet } = createStoreContext<{ user: string }>();
+
+    function Greeting() {
+      return <p>{useGet((s) => s.user)}</p>;
+    }
+
+    const handle = (user: string) =>
+      renderToString(
+        <Provider store={new Shoy({ user })}>
+          <Greeting />
+        </Provider>,
+      );
+
+    expect(handle("ada")).toBe("<p>ada</p>");
+    expect(handle("grace")).toBe("<p>grace</p>");
+  });
+
+  it("should throw outside of a provider", () => {
+    const { useStore: useCounterStore } = createStoreContext<Counter>();
+    const consoleError = jest.spyOn(console, "error").mockImplementation();
+
+    function Orphan() {
+      useCounterStore();
+      return null;
+    }
+
+    expect(() => render(<Orphan />)).toThrow(
+      "useStore must be used inside a store Provider",
+    );
+    consoleError.mockRestore();
+  });
+
+  it("should share untyped stores through ShoyProvider", () => {
+    const store = new Shoy<Counter>({ count: 5 });
+
+    function Count() {
+      const count = useGet(useStore<Counter>(), (s) => s.count);
+      return <div data-testid="count">{count}</div>;
+    }
+
+    const { getByTestId } = render(
+      <ShoyProvider store={store}>
+        <Count />
+      </ShoyProvider>,
+    );
+    expect(getByTestId("count").textContent).toBe("5");
+  });
+});
+
 describe("hooks integration", () => {
   it("should work together in same component", () => {
     const store = new Shoy({ count: 0 });
@@ -1,4 +1,16 @@
-import { Shoy } from "../index";
+import {
+  Shoy,
+  diff,
+  applyOperations,
+  push,
+  insertAt,
+  removeAt,
+  move,
+  removeById,
+  patchById,
+  derive,
+  shallowEqual,
+} from "../index";
 
 describe("Shoy", () => {
   describe("constructor", () => {
@@ -94,7 +106,9 @@ describe("Shoy", () => {
       const circular: any = { name: "new" };
       circular.self = circular;
 
-      expect(() => store.apply(circular)).toThrow(/Maximum call stack size exceeded/);
+      expect(() => store.apply(circular)).toThrow(
+        "Circular reference detected in state object",
+      );
     });
   });
 
@@ -154,6 +168,55 @@ describe("Shoy", () => {
 
       expect(callback).toHaveBeenCalledTimes(1);
     });
+
+    it("should notify path subscribers only when the path changes", () => {
+      const store = new Shoy({
+        count: 0,
+        user: { profile: { name: "Alice" }, visits: 0 },
+      });
+      const callback = jest.fn();
+      store.subscribe(callback, { path: "user.profile" });
+
+      const prevHash = store.currentHash;
+      store.apply({ count: 1 });
+      store.apply({ user: { visits: 1 } });
+      expect(callback).not.toHaveBeenCalled();
+
+      const before = store.current.user.profile;
+      store.apply({ user: { profile: { name: "Bob" } } });
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(callback).toHaveBeenCalledWith({ name: "Bob" }, before, {
+        hash: store.currentHash,
+        prevHash: expect.any(String),
+        commit: store.head,
+      });
+      expect(callback.mock.calls[0][2].prevHash).not.toBe(prevHash);
+    });
+
+    it("should notify selector subscribers with a custom equality", () => {
+      const store = new Shoy({ items: [1, 2], filter: "all" });
+      const callback = jest.fn();
+      const unsubscribe = store.subscribe(
+        (s) => s.items.map((item) => item * 2),
+        callback,
+        { equals: (a, b) => a.join() === b.join() },
+      );
+
+      store.apply({ filter: "done" });
+      store.apply({ items: [1, 2] });
+      expect(callback).not.toHaveBeenCalled();
+
+      store.apply({ items: [1, 2, 3] });
+      expect(callback).toHaveBeenCalledWith(
+        [2, 4, 6],
+        [2, 4],
+        expect.objectContaining({ hash: store.currentHash }),
+      );
+
+      unsubscribe();
+      store.apply({ items: [] });
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe("history", () => {
@@ -350,107 +413,2001 @@ describe("Shoy", () => {
     });
   });
 
-  describe("error handling", () => {
-    it("should call custom error handler on error", () => {
-      const onError = jest.fn();
-      const circular: any = { name: "test" };
-      circular.self = circular;
+  describe("timeline", () => {
+    it("should undo and redo through repeated states", () => {
+      const store = new Shoy({ value: "A" }, { maxHistory: 10 });
+      store.apply({ value: "B" });
+      store.apply({ value: "A" });
+
+      expect(store.history).toHaveLength(3);
+      expect(store.undo()).toBe(true);
+      expect(store.current.value).toBe("B");
+      expect(store.undo()).toBe(true);
+      expect(store.current.value).toBe("A");
+      expect(store.undo()).toBe(false);
 
-      try {
-        new Shoy(circular, { onError });
-      } catch {}
+      expect(store.redo()).toBe(true);
+      expect(store.redo()).toBe(true);
+      expect(store.current.value).toBe("A");
+      expect(store.redo()).toBe(false);
+    });
 
-      expect(onError).toHaveBeenCalled();
+    it("should discard redo entries on a new commit after undo", () => {
+      const store = new Shoy({ count: 0 }, { maxHistory: 10 });
+      store.apply({ count: 1 });
+      store.apply({ count: 2 });
+      store.undo();
+      store.undo();
+      store.apply({ count: 10 });
+
+      expect(store.history).toHaveLength(2);
+      expect(store.canRedo).toBe(false);
+      store.undo();
+      expect(store.redo()).toBe(true);
+      expect(store.current.count).toBe(10);
+      expect(store.redo()).toBe(false);
     });
 
-    it("should log error to console if no handler", () => {
-      const consoleError = jest.spyOn(console, "error").mockImplementation();
-      const circular: any = { name: "test" };
-      circular.self = circular;
+    it("should keep redo entries in history", () => {
+      const store = new Shoy({ count: 0 }, { maxHistory: 10 });
+      store.apply({ count: 1 });
+      store.undo();
 
-      try {
-        new Shoy(circular);
-      } catch {}
+      expect(store.history).toHaveLength(2);
+      expect(store.canUndo).toBe(false);
+      expect(store.canRedo).toBe(true);
+    });
 
-      expect(consoleError).toHaveBeenCalled();
-      consoleError.mockRestore();
+    it("should jump within the timeline on revert", () => {
+      const store = new Shoy({ count: 0 }, { maxHistory: 10 });
+      const first = store.currentHash;
+      store.apply({ count: 1 });
+      store.apply({ count: 2 });
+
+      store.revert(first);
+
+      expect(store.canRedo).toBe(true);
+      expect(store.redo()).toBe(true);
+      expect(store.current.count).toBe(1);
+    });
+
+    it("should keep a separate timeline per branch", () => {
+      const store = new Shoy({ count: 0 }, { maxHistory: 10 });
+      store.apply({ count: 1 });
+      store.branch("other");
+      store.apply({ count: 2 });
+      store.undo();
+
+      store.checkout("other");
+      store.apply({ count: 5 });
+      store.checkout("main");
+
+      expect(store.current.count).toBe(1);
+      expect(store.redo()).toBe(true);
+      expect(store.current.count).toBe(2);
     });
   });
 
-  describe("edge cases", () => {
-    it("should handle boolean state", () => {
-      const store = new Shoy(true);
-      expect(store.current).toBe(true);
+  describe("commit graph", () => {
+    it("should link commits to their parents", () => {
+      const store = new Shoy({ count: 0 }, { maxHistory: 10 });
+      store.apply({ count: 1 });
+      store.apply({ count: 2 });
+
+      const log = store.log();
+      expect(log.map((c) => c.parent)).toEqual([log[1].id, log[2].id, null]);
+      expect(store.history).toEqual(log.map((c) => c.hash).reverse());
     });
 
-    it("should handle string state", () => {
-      const store = new Shoy("hello");
-      expect(store.current).toBe("hello");
+    it("should start on the main branch", () => {
+      const store = new Shoy({ count: 0 });
+      expect(store.currentBranch).toBe("main");
+      expect(store.branches).toEqual(["main"]);
     });
 
-    it("should handle empty object", () => {
-      const store = new Shoy({});
-      store.apply({});
-      expect(store.current).toEqual({});
+    it("should explore a branch and switch back", () => {
+      const store = new Shoy({ count: 0 }, { maxHistory: 10 });
+      store.apply({ count: 1 });
+
+      expect(store.branch("experiment")).toBe(true);
+      expect(store.checkout("experiment")).toBe(true);
+      store.apply({ count: 100 });
+
+      expect(store.checkout("main")).toBe(true);
+      expect(store.current.count).toBe(1);
+      store.apply({ count: 2 });
+
+      expect(store.checkout("experiment")).toBe(true);
+      expect(store.current.count).toBe(100);
+      expect(store.log("main")).toHaveLength(3);
+      expect(store.log("experiment")).toHaveLength(3);
+      expect(store.log("main")[1].id).toBe(store.log("experiment")[1].id);
     });
 
-    it("should handle empty array", () => {
-      const store = new Shoy([]);
-      store.apply([]);
-      expect(store.current).toEqual([]);
+    it("should not overwrite an existing branch", () => {
+      const store = new Shoy({ count: 0 });
+      expect(store.branch("main")).toBe(false);
     });
 
-    it("should handle deeply nested objects", () => {
-      const deep = { a: { b: { c: { d: 1 } } } };
-      const store = new Shoy(deep);
-      store.apply({ a: { b: { c: { d: 2 } } } });
-      expect(store.current.a.b.c.d).toBe(2);
+    it("should checkout a state hash as a detached head", () => {
+      const store = new Shoy({ count: 0 }, { maxHistory: 10 });
+      const first = store.currentHash;
+      store.apply({ count: 1 });
+      const callback = jest.fn();
+      store.subscribe(callback);
+
+      expect(store.checkout(first)).toBe(true);
+      expect(store.currentBranch).toBeNull();
+      expect(store.current.count).toBe(0);
+      expect(callback.mock.calls[0][0]).toBe(first);
+
+      store.apply({ count: 5 });
+      expect(store.log("main")[0].hash).not.toBe(store.currentHash);
     });
 
-    it("should handle complex array of objects", () => {
-      const store = new Shoy({ users: [{ name: "Alice" }, { name: "Bob" }] });
-      store.apply({ users: [{ name: "Alice" }, { name: "Charlie" }] });
-      expect(store.current.users[1].name).toBe("Charlie");
+    it("should return false for an unknown ref", () => {
+      const store = new Shoy({ count: 0 });
+      expect(store.checkout("missing")).toBe(false);
     });
 
-    it("should handle function updates with nested changes", () => {
-      const store = new Shoy({ counter: 0, user: { name: "Alice" } });
-      store.apply((prev) => ({
-        counter: prev.counter + 1,
-        user: { name: "Bob" },
+    it("should keep repeated states as distinct commits", () => {
+      const store = new Shoy({ count: 0 }, { maxHistory: 10 });
+      store.apply({ count: 1 });
+      store.apply({ count: 0 });
+
+      const log = store.log();
+      expect(log).toHaveLength(3);
+      expect(log[0].hash).toBe(log[2].hash);
+      expect(log[0].id).not.toBe(log[2].id);
+    });
+
+    it("should keep branch tips when pruning", () => {
+      const store = new Shoy({ count: 0 }, { maxHistory: 1 });
+      store.branch("saved");
+      for (let i = 1; i <= 5; i++) store.apply({ count: i });
+
+      expect(store.checkout("saved")).toBe(true);
+      expect(store.current.count).toBe(0);
+    });
+  });
+
+  describe("commit metadata", () => {
+    it("should store action, message and meta with each commit", () => {
+      const store = new Shoy({ count: 0 }, { maxHistory: 10 });
+      store.apply(
+        { count: 1 },
+        { action: "increment", message: "bump", meta: { by: 1 } },
+      );
+
+      expect(store.head).toMatchObject({
+        action: "increment",
+        message: "bump",
+        meta: { by: 1 },
+      });
+      expect(store.log()[1].action).toBeUndefined();
+    });
+
+    it("should pass the commit to subscribers", () => {
+      const store = new Shoy({ count: 0 });
+      const callback = jest.fn();
+      store.subscribe(callback);
+
+      const hash = store.apply({ count: 1 }, { action: "increment" });
+
+      expect(callback).toHaveBeenCalledWith(
+        hash,
+        expect.objectContaining({ hash, action: "increment" }),
+      );
+    });
+
+    it("should find the state at a point in time", () => {
+      const now = jest.spyOn(Date, "now");
+      now.mockReturnValue(1000);
+      const store = new Shoy({ count: 0 }, { maxHistory: 10 });
+      now.mockReturnValue(2000);
+      store.apply({ count: 1 });
+      now.mockReturnValue(3000);
+      store.apply({ count: 2 });
+      now.mockRestore();
+
+      expect(store.at(500)).toBeUndefined();
+      expect(store.at(1500)).toEqual({ count: 0 });
+      expect(store.at(2000)).toEqual({ count: 1 });
+      expect(store.at(9999)).toEqual({ count: 2 });
+    });
+  });
+
+  describe("path operations", () => {
+    interface State {
+      user: { name: string; address: { city: string; zip?: string } };
+      todos: { id: number; done: boolean }[];
+      note?: string;
+    }
+
+    const initial: State = {
+      user: { name: "Alice", address: { city: "Oslo", zip: "0150" } },
+      todos: [{ id: 1, done: false }],
+      note: "hi",
+    };
+
+    it("should set a nested value", () => {
+      const store = new Shoy(initial);
+      const callback = jest.fn();
+      store.subscribe(callback);
+
+      store.set("user.address.city", "Bergen");
+
+      expect(store.current.user.address).toEqual({
+        city: "Bergen",
+        zip: "0150",
+      });
+      expect(store.current.todos).toBe(initial.todos);
+      expect(initial.user.address.city).toBe("Oslo");
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
+
+    it("should replace a nested object wholesale", () => {
+      const store = new Shoy(initial);
+      store.set("user.address", { city: "Bergen" });
+      expect(store.current.user.address).toEqual({ city: "Bergen" });
+    });
+
+    it("should update a value from its previous value", () => {
+      const store = new Shoy(initial);
+      store.update("todos.0.done", (done) => !done, { action: "toggle" });
+
+      expect(store.current.todos[0].done).toBe(true);
+      expect(store.head.action).toBe("toggle");
+    });
+
+    it("should delete keys and array items", () => {
+      const store = new Shoy(initial);
+      store.delete("user.address.zip");
+      store.delete("todos.0");
+
+      expect(store.current.user.address).toEqual({ city: "Oslo" });
+      expect("zip" in store.current.user.address).toBe(false);
+      expect(store.current.todos).toEqual([]);
+    });
+
+    it("should not commit when deleting a missing key", () => {
+      const store = new Shoy<State>({ user: initial.user, todos: [] });
+      const callback = jest.fn();
+      store.subscribe(callback);
+
+      expect(store.delete("note")).toBe(store.currentHash);
+      expect(callback).not.toHaveBeenCalled();
+    });
+
+    it("should remove keys marked with Shoy.DELETE", () => {
+      const store = new Shoy(initial);
+
+      store.apply({
+        note: Shoy.DELETE,
+        user: { address: { zip: Shoy.DELETE } },
+      });
+
+      expect("note" in store.current).toBe(false);
+      expect(store.current.user).toEqual({
+        name: "Alice",
+        address: { city: "Oslo" },
+      });
+    });
+
+    it("should strip Shoy.DELETE from newly added objects", () => {
+      const store = new Shoy<{ extra?: { a?: number; b: number } }>({});
+      store.apply({ extra: { a: Shoy.DELETE, b: 1 } });
+      expect(store.current.extra).toEqual({ b: 1 });
+    });
+
+    it("should delete Map entries marked with Shoy.DELETE", () => {
+      const store = new Shoy({
+        ids: new Map([
+          ["a", 1],
+          ["b", 2],
+        ]),
+      });
+      store.apply({ ids: new Map([["a", Shoy.DELETE]]) });
+      expect(Array.from(store.current.ids.keys())).toEqual(["b"]);
+    });
+
+    it("should type-check paths and values", () => {
+      const store = new Shoy(initial);
+
+      // @ts-expect-error unknown path
+      expect(() => store.set("user.missing", "x")).not.toThrow();
+      // @ts-expect-error wrong value type
+      store.set("user.name", 42);
+      // @ts-expect-error required keys cannot be deleted with the sentinel
+      store.apply({ user: { name: Shoy.DELETE } });
+      // @ts-expect-error required keys cannot be deleted
+      store.delete("user.name");
+    });
+  });
+
+  describe("array operations", () => {
+    interface Todo {
+      id: number;
+      title: string;
+      done: boolean;
+    }
+
+    const todos = (count: number): Todo[] =>
+      Array.from({ length: count }, (_, i) => ({
+        id: i,
+        title: `todo ${i}`,
+        done: false,
       }));
-      expect(store.current.counter).toBe(1);
-      expect(store.current.user.name).toBe("Bob");
+
+    it("should push, insert, remove and move elements", () => {
+      const store = new Shoy({ list: [1, 2, 3] });
+
+      store.apply({ list: push(4, 5) });
+      expect(store.current.list).toEqual([1, 2, 3, 4, 5]);
+
+      store.apply({ list: insertAt(1, 9) });
+      expect(store.current.list).toEqual([1, 9, 2, 3, 4, 5]);
+
+      store.apply({ list: removeAt(0, 2) });
+      expect(store.current.list).toEqual([2, 3, 4, 5]);
+
+      store.apply({ list: move(0, 3) });
+      expect(store.current.list).toEqual([3, 4, 5, 2]);
+    });
+
+    it("should patch and remove elements by id", () => {
+      const store = new Shoy({ todos: todos(3) });
+
+      store.apply({ todos: patchById("id", 1, { done: true }) });
+      expect(store.current.todos[1]).toEqual({
+        id: 1,
+        title: "todo 1",
+        done: true,
+      });
+
+      store.apply({ todos: removeById("id", 0) });
+      expect(store.current.todos.map((todo) => todo.id)).toEqual([1, 2]);
+    });
+
+    it("should keep untouched elements by reference", () => {
+      const store = new Shoy({ todos: todos(100) });
+      const before = store.current.todos;
+
+      store.apply({ todos: patchById("id", 50, { done: true }) });
+      const after = store.current.todos;
+
+      expect(after).not.toBe(before);
+      expect(after[49]).toBe(before[49]);
+      expect(after[50]).not.toBe(before[50]);
+      expect(before[50].done).toBe(false);
+    });
+
+    it("should apply to array roots and missing arrays", () => {
+      const root = new Shoy([1, 2]);
+      root.apply(push(3));
+      expect(root.current).toEqual([1, 2, 3]);
+
+      const store = new Shoy<{ tags?: string[] }>({});
+      store.apply({ tags: push("a") });
+      expect(store.current.tags).toEqual(["a"]);
+    });
+
+    it("should hash the same as an equivalent full replacement", () => {
+      const a = new Shoy({ list: [1, 2, 3] });
+      const b = new Shoy({ list: [1, 2, 3] });
+
+      a.apply({ list: insertAt(0, 0) });
+      b.apply({ list: [0, 1, 2, 3] });
+
+      expect(a.currentHash).toBe(b.currentHash);
+    });
+
+    it("should reject invalid indices and non-array targets", () => {
+      const onError = jest.fn();
+      const store = new Shoy({ list: [1], name: "x" }, { onError });
+
+      expect(() => store.apply({ list: removeAt(5) })).toThrow(
+        "Array index out of range: 5",
+      );
+      expect(() => store.apply({ name: push("y") } as never)).toThrow(
+        "Cannot apply array push to a non-array value",
+      );
+      expect(store.current).toEqual({ list: [1], name: "x" });
+      expect(onError).toHaveBeenCalledWith(expect.any(Error), "apply");
+    });
+
+    it("should diff at element granularity", () => {
+      const store = new Shoy({ todos: todos(1000) }, { maxHistory: 10 });
+      const first = store.currentHash;
+
+      store.apply({
+        todos: insertAt(0, { id: -1, title: "new", done: false }),
+      });
+      expect(store.diff(first)).toEqual([
+        {
+          op: "add",
+          path: "/todos/0",
+          value: { id: -1, title: "new", done: false },
+        },
+      ]);
+
+      const second = store.currentHash;
+      store.apply({ todos: removeAt(500) });
+      expect(store.diff(second)).toEqual([
+        { op: "remove", path: "/todos/500" },
+      ]);
     });
   });
 
-  describe("hash consistency", () => {
-    it("should generate same hash for same state", () => {
-      const store1 = new Shoy({ count: 0 });
-      const store2 = new Shoy({ count: 0 });
+  describe("transactions", () => {
+    it("should commit several updates once and notify once", () => {
+      const store = new Shoy(
+        { count: 0, user: { name: "Alice" } },
+        { maxHistory: 10 },
+      );
+      const callback = jest.fn();
+      store.subscribe(callback);
 
-      const hash1 = store1.apply({ count: 1 });
-      const hash2 = store2.apply({ count: 1 });
+      store.transaction(
+        () => {
+          store.apply({ count: 1 });
+          store.set("user.name", "Bob");
+          store.update("count", (count) => count + 1);
+          expect(store.current.count).toBe(2);
+        },
+        { action: "batch" },
+      );
+
+      expect(store.current).toEqual({ count: 2, user: { name: "Bob" } });
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(store.history).toHaveLength(2);
+      expect(store.head.action).toBe("batch");
+    });
 
-      expect(hash1).toBe(hash2);
+    it("should report the pending hash until the transaction commits", () => {
+      const store = new Shoy(
+        { count: 0 },
+        { maxHistory: 10, onError: () => {} },
+      );
+      const before = store.currentHash;
+      let pending = "";
+
+      store.transaction(() => {
+        pending = store.apply({ count: 1 });
+        expect(store.currentHash).toBe(pending);
+        expect(() => store.diff(pending)).toThrow("Unknown version");
+      });
+
+      expect(store.currentHash).toBe(pending);
+      expect(store.diff(before, pending)).toEqual([
+        { op: "replace", path: "/count", value: 1 },
+      ]);
     });
 
-    it("should generate different hashes for different states", () => {
+    it("should roll back when the function throws", () => {
+      const onError = jest.fn();
+      const store = new Shoy({ count: 0 }, { onError });
+      const before = store.currentHash;
+      const callback = jest.fn();
+      store.subscribe(callback);
+
+      expect(() =>
+        store.transaction(() => {
+          store.apply({ count: 5 });
+          throw new Error("boom");
+        }),
+      ).toThrow("boom");
+
+      expect(store.currentHash).toBe(before);
+      expect(store.current.count).toBe(0);
+      expect(store.inTransaction).toBe(false);
+      expect(callback).not.toHaveBeenCalled();
+      expect(onError).toHaveBeenCalledWith(expect.any(Error), "transaction");
+    });
+
+    it("should roll back only the failed nested transaction", () => {
+      const store = new Shoy({ a: 0, b: 0 });
+      const callback = jest.fn();
+      store.subscribe(callback);
+
+      const result = store.transaction(() => {
+        store.apply({ a: 1 });
+        try {
+          store.transaction(() => {
+            store.apply({ b: 1 });
+            throw new Error("inner");
+          });
+        } catch {}
+        store.transaction(() => store.apply({ b: 2 }));
+        return "done";
+      });
+
+      expect(result).toBe("done");
+      expect(store.current).toEqual({ a: 1, b: 2 });
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not commit when nothing changed", () => {
       const store = new Shoy({ count: 0 });
-      const hash1 = store.apply({ count: 1 });
-      const hash2 = store.apply({ count: 2 });
+      const callback = jest.fn();
+      store.subscribe(callback);
 
-      expect(hash1).not.toBe(hash2);
+      store.transaction(() => {
+        store.apply({ count: 1 });
+        store.apply({ count: 0 });
+      });
+
+      expect(callback).not.toHaveBeenCalled();
     });
 
-    it("should generate stable hash regardless of object key order", () => {
-      const store1 = new Shoy({ a: 1, b: 2, c: 0 });
-      const store2 = new Shoy({ b: 2, a: 1, c: 0 });
+    it("should reject undo and checkout inside a transaction", () => {
+      const store = new Shoy(
+        { count: 0 },
+        { maxHistory: 10, onError: () => {} },
+      );
+      store.apply({ count: 1 });
 
-      const hash1 = store1.apply({ a: 1, b: 2, c: 3 });
-      const hash2 = store2.apply({ c: 3, b: 2, a: 1 });
+      expect(() => store.transaction(() => store.undo())).toThrow(
+        "Cannot undo during a transaction",
+      );
+      expect(() => store.transaction(() => store.checkout("main"))).toThrow(
+        "Cannot checkout during a transaction",
+      );
+    });
+  });
 
-      expect(hash1).toBe(hash2);
+  describe("actions", () => {
+    it("should commit intermediate states tagged with the action", async () => {
+      const store = new Shoy(
+        { loading: false, items: [] as string[] },
+        { maxHistory: 10 },
+      );
+
+      const result = await store.action(
+        async (ctx) => {
+          ctx.apply({ loading: true });
+          const items = await Promise.resolve(["a", "b"]);
+          ctx.apply({ loading: false, items }, { message: "loaded" });
+          return items.length;
+        },
+        { name: "fetchItems" },
+      );
+
+      expect(result).toBe(2);
+      expect(store.current).toEqual({ loading: false, items: ["a", "b"] });
+      expect(store.log().slice(0, 2)).toEqual([
+        expect.objectContaining({ action: "fetchItems", message: "loaded" }),
+        expect.objectContaining({ action: "fetchItems" }),
+      ]);
+    });
+
+    it("should use the function name by default", async () => {
+      const store = new Shoy({ count: 0 });
+
+      await store.action(async function increment(ctx) {
+        ctx.apply({ count: ctx.current.count + 1 });
+      });
+
+      expect(store.head.action).toBe("increment");
+    });
+
+    it("should track pending status and errors", async () => {
+      const onError = jest.fn();
+      const store = new Shoy({ count: 0 }, { onError });
+      const listener = jest.fn();
+      store.subscribeActions(listener);
+
+      const running = store.action(
+        async () => {
+          throw new Error("failed");
+        },
+        { name: "save" },
+      );
+      expect(store.actionStatus("save")).toEqual({
+        pending: true,
+        error: null,
+      });
+      expect(store.actionStatus().pending).toBe(true);
+
+      await expect(running).rejects.toThrow("failed");
+      expect(store.actionStatus("save")).toEqual({
+        pending: false,
+        error: expect.objectContaining({ message: "failed" }),
+      });
+      expect(listener).toHaveBeenCalledTimes(2);
+      expect(onError).toHaveBeenCalledWith(expect.any(Error), "action");
+    });
+
+    it("should abort the previous run when cancelPrevious is set", async () => {
+      const store = new Shoy({ query: "", results: [] as string[] });
+      const search = (query: string) =>
+        store.action(
+          async (ctx) => {
+            ctx.apply({ query });
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            ctx.apply({ results: [query] });
+          },
+          { name: "search", cancelPrevious: true },
+        );
+
+      const first = search("a");
+      const second = search("ab");
+
+      await expect(first).rejects.toThrow();
+      await second;
+      expect(store.current).toEqual({ query: "ab", results: ["ab"] });
+      expect(store.actionStatus("search")).toEqual({
+        pending: false,
+        error: null,
+      });
+    });
+
+    it("should cancel running actions and follow external signals", async () => {
+      const store = new Shoy({ count: 0 });
+      const seen: boolean[] = [];
+      const wait = (ctx: { signal: AbortSignal }) =>
+        new Promise<void>((resolve) => {
+          ctx.signal.addEventListener("abort", () => {
+            seen.push(ctx.signal.aborted);
+            resolve();
+          });
+        });
+
+      const controller = new AbortController();
+      const external = store.action(wait, { signal: controller.signal });
+      const named = store.action(wait, { name: "poll" });
+
+      store.cancel("poll");
+      controller.abort();
+      await Promise.all([external, named]);
+
+      expect(seen).toEqual([true, true]);
+      expect(store.actionStatus().pending).toBe(false);
+    });
+  });
+
+  describe("events", () => {
+    it("should emit typed events for each kind of change", () => {
+      const store = new Shoy({ count: 0 }, { maxHistory: 10 });
+      const events: string[] = [];
+      for (const type of [
+        "commit",
+        "undo",
+        "redo",
+        "revert",
+        "restore",
+      ] as const) {
+        store.on(type, (event) => {
+          expect(event.hash).toBe(store.currentHash);
+          expect(event.commit.hash).toBe(event.hash);
+          events.push(`${event.type}:${store.current.count}`);
+        });
+      }
+
+      const first = store.currentHash;
+      store.apply({ count: 1 });
+      store.apply({ count: 2 });
+      store.undo();
+      store.redo();
+      store.revert(first);
+      store.branch("feature");
+      store.checkout("feature");
+
+      expect(events).toEqual([
+        "commit:1",
+        "commit:2",
+        "undo:1",
+        "redo:2",
+        "revert:0",
+        "restore:0",
+      ]);
+    });
+
+    it("should pass the previous hash", () => {
+      const store = new Shoy({ count: 0 }, { maxHistory: 10 });
+      const handler = jest.fn();
+      store.on("undo", handler);
+
+      store.apply({ count: 1 });
+      const prevHash = store.currentHash;
+      store.undo();
+
+      expect(handler).toHaveBeenCalledWith({
+        type: "undo",
+        hash: store.currentHash,
+        prevHash,
+        commit: store.head,
+      });
+    });
+
+    it("should emit errors and stop when unsubscribed", () => {
+      const store = new Shoy({ count: 0 });
+      const handler = jest.fn();
+      const off = store.on("error", handler);
+      const circular: any = {};
+      circular.self = circular;
+
+      expect(() => store.apply({ data: circular } as never)).toThrow();
+      expect(handler).toHaveBeenCalledWith({
+        type: "error",
+        error: expect.any(Error),
+        context: "apply",
+      });
+
+      off();
+      handler.mockClear();
+      store.on("commit", handler)();
+      store.apply({ count: 1 });
+      expect(handler).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("strict mode and verify", () => {
+    it("should deep-freeze committed states in strict mode", () => {
+      const store = new Shoy(
+        { user: { name: "Alice" }, tags: ["a"] },
+        { strict: true },
+      );
+      store.apply({ user: { name: "Bob" } });
+      const state = store.current;
+
+      expect(Object.isFrozen(state)).toBe(true);
+      expect(Object.isFrozen(state.user)).toBe(true);
+      expect(Object.isFrozen(state.tags)).toBe(true);
+      expect(() => {
+        (state.user as { name: string }).name = "x";
+      }).toThrow(TypeError);
+      expect(store.current.user.name).toBe("Bob");
+    });
+
+    it("should not freeze states by default", () => {
+      const store = new Shoy({ user: { name: "Alice" } });
+      expect(Object.isFrozen(store.current)).toBe(false);
+    });
+
+    it("should report versions mutated after commit", () => {
+      const onError = jest.fn();
+      const store = new Shoy(
+        { user: { name: "Alice" }, count: 0 },
+        { maxHistory: 10, onError },
+      );
+      const first = store.currentHash;
+      store.apply({ count: 1 });
+
+      expect(store.verify()).toEqual([]);
+
+      (store.current as { count: number }).count = 99;
+      const mismatches = store.verify();
+
+      expect(mismatches).toHaveLength(1);
+      expect(mismatches[0].hash).toBe(store.currentHash);
+      expect(mismatches[0].actual).not.toBe(store.currentHash);
+      expect(mismatches.map((m) => m.hash)).not.toContain(first);
+      expect(onError).toHaveBeenCalledWith(expect.any(Error), "verify");
+    });
+
+    it("should detect mutations inside Maps", () => {
+      const store = new Shoy(
+        { scores: new Map([["a", 1]]) },
+        { onError: () => {} },
+      );
+
+      store.current.scores.set("a", 2);
+
+      expect(store.verify()).toHaveLength(1);
+    });
+
+    it("should block mutators of Maps, Sets and Dates in strict mode", () => {
+      const store = new Shoy(
+        {
+          scores: new Map([["a", 1]]),
+          tags: new Set(["x"]),
+          at: new Date(0),
+        },
+        { strict: true },
+      );
+      const { scores, tags, at } = store.current;
+
+      expect(() => scores.set("b", 2)).toThrow(TypeError);
+      expect(() => scores.delete("a")).toThrow(TypeError);
+      expect(() => tags.add("y")).toThrow(TypeError);
+      expect(() => tags.clear()).toThrow(TypeError);
+      expect(() => at.setTime(5)).toThrow(TypeError);
+      expect(() => at.setUTCFullYear(2000)).toThrow(TypeError);
+      expect(store.verify()).toEqual([]);
+
+      store.apply({ scores: new Map([["b", 2]]), tags: new Set(["y"]) });
+      expect(Array.from(store.current.scores)).toEqual([
+        ["a", 1],
+        ["b", 2],
+      ]);
+      expect(store.current.scores.get("a")).toBe(1);
+      expect(store.current.at.getTime()).toBe(0);
+    });
+  });
+
+  describe("derive", () => {
+    it("should compute a value from several stores", () => {
+      const cart = new Shoy({ items: [{ sku: "a", qty: 2 }] });
+      const catalogue = new Shoy({
+        prices: { a: 5, b: 3 } as Record<string, number>,
+      });
+      const total = derive([cart, catalogue], (c, p) =>
+        c.items.reduce((sum, item) => sum + item.qty * p.prices[item.sku], 0),
+      );
+
+      expect(total.current).toBe(10);
+
+      const callback = jest.fn();
+      total.subscribe(callback);
+      cart.apply({ items: push({ sku: "b", qty: 1 }) });
+
+      expect(total.current).toBe(13);
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
+
+    it("should recompute only when an input hash changes", () => {
+      const a = new Shoy({ count: 1, other: 0 }, { maxHistory: 10 });
+      const compute = jest.fn((s: { count: number }) => ({
+        doubled: s.count * 2,
+      }));
+      const derived = derive([a], compute);
+      const callback = jest.fn();
+      derived.subscribe(callback);
+      compute.mockClear();
+
+      a.apply({ other: 1 });
+      expect(compute).toHaveBeenCalledTimes(1);
+      expect(callback).not.toHaveBeenCalled();
+
+      a.subscribe(() => {});
+      a.undo();
+      a.redo();
+      expect(compute).toHaveBeenCalledTimes(3);
+      expect(derived.current).toEqual({ doubled: 2 });
+    });
+
+    it("should have a content hash and support scoped subscriptions", () => {
+      const a = new Shoy({ x: 1 });
+      const b = new Shoy({ y: 2 });
+      const sum = derive([a, b], (p, q) => ({ sum: p.x + q.y, label: "sum" }));
+      const same = new Shoy({ sum: 3, label: "sum" });
+
+      expect(sum.currentHash).toBe(same.currentHash);
+
+      const callback = jest.fn();
+      sum.subscribe(callback, { path: "sum" });
+      b.apply({ y: 5 });
+      expect(callback).toHaveBeenCalledWith(6, 3, expect.anything());
+    });
+
+    it("should chain and stop updating once disposed", () => {
+      const a = new Shoy({ n: 1 });
+      const doubled = derive([a], (s) => s.n * 2);
+      const quadrupled = derive([doubled], (d) => d * 2);
+
+      a.apply({ n: 2 });
+      expect(quadrupled.current).toBe(8);
+
+      doubled.dispose();
+      a.apply({ n: 3 });
+      expect(doubled.current).toBe(4);
+      expect(quadrupled.current).toBe(8);
+    });
+  });
+
+  describe("slices", () => {
+    const initial = () => ({
+      settings: { theme: "dark", fontSize: 12 },
+      todos: [{ id: 1, title: "a", done: false }],
+      count: 0,
+    });
+
+    it("should read and write a sub-tree through the parent", () => {
+      const store = new Shoy(initial(), { maxHistory: 10 });
+      const settings = store.slice("settings");
+
+      expect(settings.current).toEqual({ theme: "dark", fontSize: 12 });
+      settings.apply({ theme: "light" }, { action: "toggleTheme" });
+
+      expect(store.current.settings).toEqual({ theme: "light", fontSize: 12 });
+      expect(store.head.action).toBe("toggleTheme");
+      expect(settings.apply((prev) => ({ fontSize: prev.fontSize + 1 }))).toBe(
+        settings.currentHash,
+      );
+      expect(store.current.settings.fontSize).toBe(13);
+      expect(store.slice("settings")).toBe(settings);
+    });
+
+    it("should hash the sub-tree like a standalone store", () => {
+      const store = new Shoy(initial());
+      const standalone = new Shoy({ theme: "dark", fontSize: 12 });
+
+      expect(store.slice("settings").currentHash).toBe(standalone.currentHash);
+    });
+
+    it("should write through arrays and nested slices", () => {
+      const store = new Shoy(initial());
+      const todo = store.slice("todos.0");
+
+      todo.apply({ done: true });
+      expect(store.current.todos).toEqual([{ id: 1, title: "a", done: true }]);
+
+      store.slice("todos").slice("0.title").apply("b");
+      expect(store.current.todos[0].title).toBe("b");
+    });
+
+    it("should notify slice subscribers only for slice changes", () => {
+      const store = new Shoy(initial());
+      const settings = store.slice("settings");
+      const callback = jest.fn();
+      const onTheme = jest.fn();
+      const onCommit = jest.fn();
+      settings.subscribe(callback);
+      settings.subscribe(onTheme, { path: "theme" });
+      settings.on("commit", onCommit);
+
+      store.apply({ count: 1 });
+      expect(callback).not.toHaveBeenCalled();
+      expect(onCommit).not.toHaveBeenCalled();
+
+      const prevHash = settings.currentHash;
+      settings.apply({ fontSize: 14 });
+      expect(callback).toHaveBeenCalledWith(settings.currentHash, store.head);
+      expect(onTheme).not.toHaveBeenCalled();
+      expect(onCommit).toHaveBeenCalledWith(
+        expect.objectContaining({ hash: settings.currentHash, prevHash }),
+      );
+
+      settings.apply({ theme: "light" });
+      expect(onTheme).toHaveBeenCalledWith("light", "dark", expect.anything());
+    });
+
+    it("should undo and redo only the slice", () => {
+      const store = new Shoy(initial(), { maxHistory: 10 });
+      const settings = store.slice("settings");
+
+      settings.apply({ theme: "light" });
+      store.apply({ count: 5 });
+
+      expect(settings.undo()).toBe(true);
+      expect(store.current.settings.theme).toBe("dark");
+      expect(store.current.count).toBe(5);
+      expect(settings.canUndo).toBe(false);
+
+      expect(settings.redo()).toBe(true);
+      expect(store.current.settings.theme).toBe("light");
+      expect(settings.redo()).toBe(false);
+    });
+
+    it("should not track slice history without maxHistory", () => {
+      const store = new Shoy(initial());
+      const settings = store.slice("settings");
+
+      settings.apply({ theme: "light" });
+      expect(settings.undo()).toBe(false);
+    });
+  });
+
+  describe("retention", () => {
+    it("should drop versions older than maxAge", () => {
+      const now = jest.spyOn(Date, "now");
+      now.mockReturnValue(1000);
+      const store = new Shoy(
+        { count: 0 },
+        { maxHistory: 10, retention: { maxAge: 5000 } },
+      );
+      store.apply({ count: 1 });
+      now.mockReturnValue(7000);
+      store.apply({ count: 2 });
+      now.mockRestore();
+
+      expect(store.history).toHaveLength(1);
+      expect(store.current.count).toBe(2);
+      expect(store.canUndo).toBe(false);
+    });
+
+    it("should thin out older history with keepEvery", () => {
+      const store = new Shoy(
+        { count: 0 },
+        { maxHistory: 20, retention: { keepEvery: { after: 3, every: 2 } } },
+      );
+      for (let i = 1; i <= 9; i++) store.apply({ count: i });
+
+      expect(store.history).toHaveLength(7);
+      expect(store.revert(store.history[1])).toBe(true);
+      expect(store.current.count).toBe(2);
+    });
+
+    it("should keep history under maxBytes", () => {
+      const store = new Shoy(
+        { items: [] as string[] },
+        { maxHistory: 100, retention: { maxBytes: 2000 } },
+      );
+      for (let i = 0; i < 50; i++) {
+        store.apply((prev) => ({ items: [...prev.items, `item-${i}`] }));
+      }
+
+      expect(store.stats().bytes).toBeLessThanOrEqual(2000);
+      expect(store.current.items).toHaveLength(50);
+      expect(store.history.length).toBeLessThan(51);
+    });
+
+    it("should never prune pinned versions", () => {
+      const store = new Shoy(
+        { count: 0 },
+        { maxHistory: 2, retention: { maxBytes: 0 } },
+      );
+      const pinned = store.apply({ count: 1 });
+      expect(store.pin(pinned)).toBe(true);
+      for (let i = 2; i < 6; i++) store.apply({ count: i });
+
+      expect(store.pins.map((commit) => commit.hash)).toEqual([pinned]);
+      expect(store.revert(pinned)).toBe(true);
+      expect(store.current.count).toBe(1);
+    });
+
+    it("should release a version once unpinned", () => {
+      const store = new Shoy({ count: 0 }, { maxHistory: 1 });
+      const first = store.currentHash;
+      store.pin(first);
+      store.apply({ count: 1 });
+      store.apply({ count: 2 });
+
+      expect(store.stats().versions).toBe(3);
+      expect(store.unpin(first)).toBe(true);
+      expect(store.stats().versions).toBe(2);
+      expect(store.unpin(first)).toBe(false);
+      expect(store.revert(first)).toBe(false);
+    });
+
+    it("should report history stats", () => {
+      const store = new Shoy({ count: 0 }, { maxHistory: 10 });
+      const empty = store.stats();
+      store.apply({ count: 1 });
+      store.pin(store.currentHash);
+
+      expect(store.stats()).toEqual({
+        versions: 2,
+        commits: 2,
+        history: 2,
+        pinned: 1,
+        bytes: expect.any(Number),
+      });
+      expect(store.stats().bytes).toBeGreaterThan(empty.bytes);
+    });
+
+    it("should count shared subtrees once", () => {
+      const big = { text: "x".repeat(1000) };
+      const store = new Shoy({ big, count: 0 }, { maxHistory: 10 });
+      const before = store.stats().bytes;
+      store.apply({ count: 1 });
+
+      expect(store.stats().bytes - before).toBeLessThan(200);
+    });
+  });
+
+  describe("delta storage", () => {
+    const items = () =>
+      Array.from({ length: 500 }, (_, id) => ({ id, label: `item ${id}` }));
+
+    it("should rebuild older states from patches", () => {
+      const store = new Shoy(
+        { items: items(), count: 0 },
+        { maxHistory: 50, keyframeInterval: 10 },
+      );
+      for (let i = 1; i <= 25; i++) {
+        store.apply((prev) => ({
+          count: i,
+          items: prev.items.map((item) =>
+            item.id === i ? { ...item, label: `edited ${i}` } : item,
+          ),
+        }));
+      }
+
+      for (let i = 24; i >= 0; i--) {
+        expect(store.undo()).toBe(true);
+        expect(store.current.count).toBe(i);
+        expect(store.current.items[i + 1].label).toBe(`item ${i + 1}`);
+      }
+      expect(store.verify()).toEqual([]);
+    });
+
+    it("should keep the current state without rebuilding it", () => {
+      const store = new Shoy(
+        { count: 0 },
+        { maxHistory: 10, keyframeInterval: 10 },
+      );
+      for (let i = 1; i <= 5; i++) store.apply({ count: i });
+      const head = store.current;
+      store.undo();
+      const previous = store.current;
+
+      expect(previous).toEqual({ count: 4 });
+      expect(store.current).toBe(previous);
+      store.redo();
+      expect(store.current).toBe(head);
+    });
+
+    it("should use less memory than full copies", () => {
+      const run = (keyframeInterval: number) => {
+        const store = new Shoy(
+          { items: items() },
+          { maxHistory: 100, keyframeInterval },
+        );
+        for (let i = 0; i < 50; i++) {
+          store.apply((prev) => ({
+            items: [...prev.items, { id: i, label: "" }],
+          }));
+        }
+        return store.stats().bytes;
+      };
+
+      expect(run(50)).toBeLessThan(run(1) / 5);
+    });
+
+    it("should stay consistent when versions are pruned", () => {
+      const store = new Shoy(
+        { count: 0 },
+        { maxHistory: 3, keyframeInterval: 4 },
+      );
+      for (let i = 1; i <= 12; i++) store.apply({ count: i });
+
+      expect(store.stats().versions).toBe(4);
+      store.undo();
+      store.undo();
+      store.undo();
+      expect(store.current.count).toBe(9);
+      expect(store.canUndo).toBe(false);
+    });
+
+    it("should rebuild states across branches", () => {
+      const store = new Shoy(
+        { count: 0 },
+        { maxHistory: 20, keyframeInterval: 5 },
+      );
+      store.apply({ count: 1 });
+      store.branch("feature");
+      store.checkout("feature");
+      for (let i = 2; i < 8; i++) store.apply({ count: i * 10 });
+      store.checkout("main");
+
+      expect(store.current.count).toBe(1);
+      store.checkout("feature");
+      expect(store.current.count).toBe(70);
+      expect(store.undo()).toBe(true);
+      expect(store.current.count).toBe(60);
+    });
+  });
+
+  describe("repository bundles", () => {
+    const build = () => {
+      const store = new Shoy(
+        {
+          count: 0,
+          tags: new Set(["a"]),
+          at: new Date(0),
+          big: 10n,
+          bytes: new Uint8Array([1, 2, 3]),
+          index: new Map([["x", { n: -1.5 }]]),
+        },
+        { maxHistory: 10 },
+      );
+      store.apply({ count: 1 }, { action: "increment", meta: { by: 1 } });
+      store.branch("feature");
+      store.checkout("feature");
+      store.apply({ count: 10 });
+      store.checkout("main");
+      store.apply({ count: 2 });
+      store.undo();
+      store.pin(store.history[0]);
+      return store;
+    };
+
+    it.each(["json", "binary"] as const)(
+      "should round-trip the full repository as %s",
+      (format) => {
+        const store = build();
+        const bundle =
+          format === "json"
+            ? store.exportRepository()
+            : store.exportRepository({ format: "binary" });
+        const imported = Shoy.importRepository<typeof store.current>(bundle, {
+          maxHistory: 10,
+        });
+
+        expect(imported.current).toEqual(store.current);
+        expect(imported.currentHash).toBe(store.currentHash);
+        expect(imported.history).toEqual(store.history);
+        expect(imported.log()).toEqual(store.log());
+        expect(imported.branches).toEqual(store.branches);
+        expect(imported.pins).toEqual(store.pins);
+        expect(imported.canRedo).toBe(true);
+
+        imported.redo();
+        expect(imported.current.count).toBe(2);
+        imported.checkout("feature");
+        expect(imported.current.count).toBe(10);
+        expect(imported.verify()).toEqual([]);
+      },
+    );
+
+    it("should write a versioned JSON document", () => {
+      const bundle = JSON.parse(new Shoy({ count: 0 }).exportRepository());
+
+      expect(bundle).toMatchObject({
+        format: "shoy-repository",
+        version: 1,
+        branch: "main",
+      });
+    });
+
+    it("should write shared subtrees once in the binary format", () => {
+      const store = new Shoy(
+        { text: "x".repeat(10000), count: 0 },
+        { maxHistory: 20 },
+      );
+      for (let i = 1; i < 20; i++) store.apply({ count: i });
+
+      expect(store.exportRepository({ format: "binary" }).length).toBeLessThan(
+        12000,
+      );
+      expect(store.exportRepository().length).toBeGreaterThan(200000);
+    });
+
+    it("should reject a version whose content does not match its hash", () => {
+      const store = new Shoy({ count: 0 }, { maxHistory: 10 });
+      store.apply({ count: 1 });
+      const bundle = JSON.parse(store.exportRepository());
+      bundle.versions[0][1].count = 99;
+
+      expect(() => Shoy.importRepository(JSON.stringify(bundle))).toThrow(
+        /does not match its content/,
+      );
+    });
+
+    it("should reject data that is not a repository", () => {
+      expect(() => Shoy.importRepository("{}")).toThrow(
+        /not a shoy repository/,
+      );
+      expect(() => Shoy.importRepository(new Uint8Array([1, 2, 3]))).toThrow(
+        /not a shoy repository/,
+      );
+
+      const binary = new Shoy({ count: 0 }).exportRepository({
+        format: "binary",
+      });
+      expect(() => Shoy.importRepository(binary.slice(0, -2))).toThrow(
+        /Unexpected end/,
+      );
+    });
+
+    it("should keep the bundle's history when no limit is given", () => {
+      const store = new Shoy({ count: 0 }, { maxHistory: 10 });
+      for (let i = 1; i <= 5; i++) store.apply({ count: i });
+
+      const imported = Shoy.importRepository<{ count: number }>(
+        store.exportRepository(),
+      );
+      expect(imported.history).toEqual(store.history);
+      expect(imported.log()).toEqual(store.log());
+      expect(imported.undo()).toBe(true);
+      expect(imported.current.count).toBe(4);
+    });
+
+    it("should apply the importing store's history limit", () => {
+      const store = new Shoy({ count: 0 }, { maxHistory: 10 });
+      for (let i = 1; i <= 5; i++) store.apply({ count: i });
+
+      const imported = Shoy.importRepository<{ count: number }>(
+        store.exportRepository(),
+        { maxHistory: 2 },
+      );
+      expect(imported.history).toHaveLength(3);
+      expect(imported.current.count).toBe(5);
+    });
+  });
+
+  describe("async initialization", () => {
+    const deferred = <T>() => {
+      let resolve!: (value: T) => void;
+      let reject!: (error: Error) => void;
+      const promise = new Promise<T>((res, rej) => {
+        resolve = res;
+        reject = rej;
+      });
+      return { promise, resolve, reject };
+    };
+
+    it("should be ready immediately with a synchronous initializer", async () => {
+      const store = Shoy.create(() => ({ count: 1 }));
+
+      expect(store.status).toBe("ready");
+      expect(store.current.count).toBe(1);
+      await expect(store.ready).resolves.toBe(store);
+    });
+
+    it("should initialize from an async source", async () => {
+      const source = deferred<{ count: number }>();
+      const store = Shoy.create(() => source.promise, { maxHistory: 10 });
+
+      expect(store.status).toBe("initializing");
+      expect(() => store.current).toThrow("Store is still initializing");
+      expect(store.currentHash).toBe("");
+
+      source.resolve({ count: 5 });
+      await store.ready;
+
+      expect(store.status).toBe("ready");
+      expect(store.current.count).toBe(5);
+      expect(store.history).toHaveLength(1);
+      expect(store.canUndo).toBe(false);
+    });
+
+    it("should run queued updates once ready", async () => {
+      const source = deferred<{ count: number; name: string }>();
+      const store = Shoy.create(() => source.promise, { maxHistory: 10 });
+
+      expect(store.apply({ count: 1 })).toBe("");
+      store.update("count", (count) => count + 1);
+      store.set("name", "queued");
+
+      source.resolve({ count: 0, name: "" });
+      await store.ready;
+
+      expect(store.current).toEqual({ count: 2, name: "queued" });
+      expect(store.history).toHaveLength(4);
+    });
+
+    it("should notify subscribers registered while initializing", async () => {
+      const source = deferred<{ count: number }>();
+      const store = Shoy.create(() => source.promise);
+      const listener = jest.fn();
+      const selected = jest.fn();
+      const restore = jest.fn();
+      store.subscribe(listener);
+      store.subscribe((state) => state.count, selected);
+      store.on("restore", restore);
+
+      source.resolve({ count: 3 });
+      await store.ready;
+
+      expect(listener).toHaveBeenCalledWith(store.currentHash, store.head);
+      expect(selected).toHaveBeenCalledWith(3, undefined, expect.anything());
+      expect(restore).toHaveBeenCalledWith(
+        expect.objectContaining({ hash: store.currentHash, prevHash: "" }),
+      );
+    });
+
+    it("should report a failed initializer", async () => {
+      const onError = jest.fn();
+      const source = deferred<{ count: number }>();
+      const store = Shoy.create(() => source.promise, { onError });
+      store.apply({ count: 1 });
+
+      source.reject(new Error("offline"));
+      await expect(store.ready).rejects.toThrow("offline");
+
+      expect(store.status).toBe("failed");
+      expect(onError).toHaveBeenCalledWith(new Error("offline"), "initialize");
+      expect(() => store.current).toThrow("Store failed to initialize");
+    });
+
+    it("should report an initializer that throws synchronously", async () => {
+      const onError = jest.fn();
+      const store = Shoy.create<{ count: number }>(
+        () => {
+          throw new Error("broken");
+        },
+        { onError },
+      );
+
+      expect(store.status).toBe("failed");
+      await expect(store.ready).rejects.toThrow("broken");
+      expect(onError).toHaveBeenCalledWith(new Error("broken"), "initialize");
+    });
+
+    it("should not start a transaction before it is ready", () => {
+      const store = Shoy.create(() => new Promise<{ count: number }>(() => {}));
+
+      expect(() => store.transaction(() => {})).toThrow(
+        "Cannot run a transaction before the store is ready",
+      );
+    });
+  });
+
+  describe("dispose", () => {
+    it("should reject further changes with a clear error", () => {
+      const store = new Shoy({ count: 0 }, { maxHistory: 10 });
+      store.apply({ count: 1 });
+      store.dispose();
+
+      expect(store.status).toBe("disposed");
+      expect(() => store.apply({ count: 2 })).toThrow(
+        "Cannot apply after the store was disposed",
+      );
+      expect(() => store.set("count", 2)).toThrow(/disposed/);
+      expect(() => store.undo()).toThrow(/disposed/);
+      expect(() => store.transaction(() => {})).toThrow(/disposed/);
+      expect(store.current).toEqual({ count: 1 });
+    });
+
+    it("should release history and listeners", () => {
+      const store = new Shoy({ count: 0 }, { maxHistory: 10 });
+      for (let i = 1; i <= 5; i++) store.apply({ count: i });
+      const before = store.stats().bytes;
+      const listener = jest.fn();
+      store.subscribe(listener);
+
+      store.dispose();
+
+      expect(store.stats()).toMatchObject({ versions: 1, commits: 1 });
+      expect(store.stats().bytes).toBeLessThan(before);
+      expect(store.history).toEqual([]);
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it("should emit a dispose event once", () => {
+      const store = new Shoy({ count: 0 });
+      const handler = jest.fn();
+      const sliceHandler = jest.fn();
+      store.on("dispose", handler);
+      store.slice("count").on("dispose", sliceHandler);
+
+      store.dispose();
+      store.dispose();
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler).toHaveBeenCalledWith({ type: "dispose" });
+      expect(sliceHandler).toHaveBeenCalledTimes(1);
+    });
+
+    it("should abort running actions", async () => {
+      const store = new Shoy({ count: 0 });
+      let signal: AbortSignal | undefined;
+      const running = store.action(
+        (ctx) =>
+          new Promise<void>((_, reject) => {
+            signal = ctx.signal;
+            ctx.signal.addEventListener("abort", () =>
+              reject(ctx.signal.reason),
+            );
+          }),
+      );
+
+      store.dispose();
+
+      await expect(running).rejects.toBeDefined();
+      expect(signal?.aborted).toBe(true);
+      await expect(store.action(async () => {})).rejects.toThrow(/disposed/);
+    });
+
+    it("should stay disposed when initialization finishes later", async () => {
+      let resolve: (state: { count: number }) => void = () => {};
+      const store = Shoy.create(
+        () => new Promise<{ count: number }>((res) => (resolve = res)),
+      );
+      const queued = jest.fn(() => ({ count: 1 }));
+      store.apply(queued);
+
+      store.dispose();
+      resolve({ count: 0 });
+      await store.ready;
+
+      expect(store.status).toBe("disposed");
+      expect(queued).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("shallowEqual", () => {
+    it("should compare one level deep", () => {
+      const item = { id: 1 };
+
+      expect(shallowEqual([item, 2], [item, 2])).toBe(true);
+      expect(shallowEqual([{ id: 1 }], [{ id: 1 }])).toBe(false);
+      expect(shallowEqual({ a: item, b: 1 }, { b: 1, a: item })).toBe(true);
+      expect(shallowEqual({ a: 1 }, { a: 1, b: undefined })).toBe(false);
+      expect(shallowEqual(new Map([["a", item]]), new Map([["a", item]]))).toBe(
+        true,
+      );
+      expect(shallowEqual(new Set([1, 2]), new Set([2, 1]))).toBe(true);
+      expect(shallowEqual(new Set([{ id: 1 }]), new Set([{ id: 1 }]))).toBe(
+        true,
+      );
+      expect(
+        shallowEqual(
+          new Map([[{ id: 1 }, item]]),
+          new Map([[{ id: 1 }, item]]),
+        ),
+      ).toBe(true);
+      expect(shallowEqual([1], { 0: 1 })).toBe(false);
+    });
+  });
+
+  describe("dehydrate and hydrate", () => {
+    interface State {
+      user: { name: string; seen: Set<string> };
+      todos: { id: number; text: string }[];
+      theme: string;
+    }
+
+    const server = () =>
+      new Shoy<State>({
+        user: { name: "Ada", seen: new Set(["intro"]) },
+        todos: [{ id: 1, text: "ship" }],
+        theme: "dark",
+      });
+
+    it("should hand the state and hash to a new store", () => {
+      const source = server();
+      const payload = source.dehydrate();
+      const onError = jest.fn();
+      const store = Shoy.hydrate<State>(payload, { onError });
+
+      expect(typeof payload).toBe("string");
+      expect(store.current).toEqual(source.current);
+      expect(store.current.user.seen.has("intro")).toBe(true);
+      expect(store.currentHash).toBe(source.currentHash);
+      expect(onError).not.toHaveBeenCalled();
+    });
+
+    it("should report a payload whose content does not match its hash", () => {
+      const payload = JSON.parse(server().dehydrate());
+      payload.entries[0].value.theme = "light";
+      const onError = jest.fn();
+
+      const store = Shoy.hydrate<State>(JSON.stringify(payload), { onError });
+
+      expect(store.current.theme).toBe("light");
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: expect.stringMatching(/does not match its hash/),
+        }),
+        "hydrate",
+      );
+    });
+
+    it("should carry history when asked to", () => {
+      const source = new Shoy({ count: 0 }, { maxHistory: 10 });
+      source.apply({ count: 1 });
+      source.apply({ count: 2 });
+
+      const store = Shoy.hydrate<{ count: number }>(
+        source.dehydrate({ history: true }),
+        { maxHistory: 10 },
+      );
+
+      expect(store.current.count).toBe(2);
+      expect(store.undo()).toBe(true);
+      expect(store.current.count).toBe(1);
+    });
+
+    it("should report a tampered history instead of throwing", () => {
+      const source = new Shoy({ count: 0 }, { maxHistory: 10 });
+      source.apply({ count: 1 });
+      source.apply({ count: 2 });
+      const payload = JSON.parse(source.dehydrate({ history: true }));
+      const bundle = JSON.parse(payload.repository);
+      bundle.versions[0][1].count = 99;
+      payload.repository = JSON.stringify(bundle);
+      const onError = jest.fn();
+
+      const store = Shoy.hydrate<{ count: number }>(JSON.stringify(payload), {
+        onError,
+      });
+
+      expect(store.current.count).toBe(2);
+      expect(store.history).toEqual(source.history);
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: expect.stringMatching(/does not match its content/),
+        }),
+        "hydrate",
+      );
+    });
+
+    it("should hydrate selected paths into an existing store", () => {
+      const payload = server().dehydrate({ paths: ["user", "todos"] });
+      const store = new Shoy<State>(
+        { user: { name: "", seen: new Set() }, todos: [], theme: "light" },
+        { maxHistory: 10 },
+      );
+
+      store.hydrate(payload);
+
+      expect(store.current.user.name).toBe("Ada");
+      expect(store.current.todos).toHaveLength(1);
+      expect(store.current.theme).toBe("light");
+      expect(store.head.action).toBe("hydrate");
+      expect(() => Shoy.hydrate(payload)).toThrow(/partial payload/);
+    });
+
+    it("should pick paths out of a full payload", () => {
+      const payload = server().dehydrate();
+      const onError = jest.fn();
+      const store = new Shoy<State>(
+        { user: { name: "", seen: new Set() }, todos: [], theme: "light" },
+        { onError },
+      );
+
+      store.hydrate(payload, { paths: ["user.name", "todos"] });
+
+      expect(store.current.user.name).toBe("Ada");
+      expect(store.current.user.seen.size).toBe(0);
+      expect(store.current.todos).toEqual([{ id: 1, text: "ship" }]);
+      expect(store.current.theme).toBe("light");
+      expect(onError).not.toHaveBeenCalled();
+    });
+
+    it("should report paths missing from a partial payload", () => {
+      const payload = server().dehydrate({ paths: ["theme"] });
+      const onError = jest.fn();
+      const store = new Shoy<State>(
+        { user: { name: "", seen: new Set() }, todos: [], theme: "light" },
+        { onError },
+      );
+
+      store.hydrate(payload, { paths: ["theme", "todos"] });
+
+      expect(store.current.theme).toBe("dark");
+      expect(onError).toHaveBeenCalledWith(
+        new Error('Path "todos" is not in the hydration payload'),
+        "hydrate",
+      );
+    });
+
+    it("should reject a payload in another format", () => {
+      const store = new Shoy({ count: 0 }, { onError: () => {} });
+
+      expect(() => Shoy.hydrate(JSON.stringify({ count: 1 }))).toThrow(
+        "Invalid hydration payload",
+      );
+      expect(() => store.hydrate("null")).toThrow("Invalid hydration payload");
+    });
+  });
+
+  describe("diff", () => {
+    it("should produce deep RFC 6902 operations", () => {
+      const prev = { user: { name: "Alice", tags: ["a", "b"] }, old: 1 };
+      const next = { user: { name: "Bob", tags: ["a"] }, "a/b": 2 };
+
+      expect(diff(prev, next)).toEqual([
+        { op: "replace", path: "/user/name", value: "Bob" },
+        { op: "remove", path: "/user/tags/1" },
+        { op: "remove", path: "/old" },
+        { op: "add", path: "/a~1b", value: 2 },
+      ]);
+    });
+
+    it("should round-trip through applyOperations", () => {
+      const prev = { list: [1, 2, 3], nested: { a: { b: 1 } }, gone: true };
+      const next = { list: [1, 5, 3, 4], nested: { a: { c: 2 } }, added: [] };
+
+      expect(applyOperations(prev, diff(prev, next))).toEqual(next);
+      expect(prev).toEqual({
+        list: [1, 2, 3],
+        nested: { a: { b: 1 } },
+        gone: true,
+      });
+    });
+
+    it("should support move, copy and test operations", () => {
+      const doc = { a: { x: 1 }, list: [1, 2] };
+
+      expect(
+        applyOperations(doc, [
+          { op: "test", path: "/a/x", value: 1 },
+          { op: "move", from: "/a/x", path: "/b" },
+          { op: "copy", from: "/list/0", path: "/list/-" },
+        ]),
+      ).toEqual({ a: {}, b: 1, list: [1, 2, 1] });
+      expect(() =>
+        applyOperations(doc, [{ op: "test", path: "/a/x", value: 2 }]),
+      ).toThrow("Test operation failed at /a/x");
+    });
+
+    it("should diff two versions of a store", () => {
+      const store = new Shoy(
+        { count: 0, user: { name: "Alice" } },
+        { maxHistory: 10, onError: () => {} },
+      );
+      const first = store.currentHash;
+      store.apply({ count: 1 });
+      store.apply({ user: { name: "Bob" } });
+
+      expect(store.diff(first)).toEqual([
+        { op: "replace", path: "/count", value: 1 },
+        { op: "replace", path: "/user/name", value: "Bob" },
+      ]);
+      expect(() => store.diff("missing")).toThrow("Unknown version: missing");
+    });
+
+    it("should apply a JSON patch as a single commit", () => {
+      const store = new Shoy({ user: { name: "Alice", age: 30 } });
+      const callback = jest.fn();
+      store.subscribe(callback);
+
+      store.applyJsonPatch(
+        [
+          { op: "remove", path: "/user/age" },
+          { op: "replace", path: "/user/name", value: "Bob" },
+        ],
+        { action: "patch" },
+      );
+
+      expect(store.current).toEqual({ user: { name: "Bob" } });
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(store.head.action).toBe("patch");
+    });
+
+    it("should leave the store untouched when a patch fails", () => {
+      const onError = jest.fn();
+      const store = new Shoy({ count: 0 }, { onError });
+
+      expect(() =>
+        store.applyJsonPatch([
+          { op: "replace", path: "/count", value: 1 },
+          { op: "remove", path: "/missing" },
+        ]),
+      ).toThrow("Path not found: /missing");
+      expect(store.current.count).toBe(0);
+      expect(onError).toHaveBeenCalledWith(expect.any(Error), "applyJsonPatch");
+    });
+  });
+
+  describe("error handling", () => {
+    it("should call custom error handler on error", () => {
+      const onError = jest.fn();
+      const circular: any = { name: "test" };
+      circular.self = circular;
+
+      try {
+        new Shoy(circular, { onError });
+      } catch {}
+
+      expect(onError).toHaveBeenCalled();
+    });
+
+    it("should log error to console if no handler", () => {
+      const consoleError = jest.spyOn(console, "error").mockImplementation();
+      const circular: any = { name: "test" };
+      circular.self = circular;
+
+      try {
+        new Shoy(circular);
+      } catch {}
+
+      expect(consoleError).toHaveBeenCalled();
+      consoleError.mockRestore();
+    });
+  });
+
+  describe("edge cases", () => {
+    it("should handle boolean state", () => {
+      const store = new Shoy(true);
+      expect(store.current).toBe(true);
+    });
+
+    it("should handle string state", () => {
+      const store = new Shoy("hello");
+      expect(store.current).toBe("hello");
+    });
+
+    it("should handle empty object", () => {
+      const store = new Shoy({});
+      store.apply({});
+      expect(store.current).toEqual({});
+    });
+
+    it("should handle empty array", () => {
+      const store = new Shoy([]);
+      store.apply([]);
+      expect(store.current).toEqual([]);
+    });
+
+    it("should handle deeply nested objects", () => {
+      const deep = { a: { b: { c: { d: 1 } } } };
+      const store = new Shoy(deep);
+      store.apply({ a: { b: { c: { d: 2 } } } });
+      expect(store.current.a.b.c.d).toBe(2);
+    });
+
+    it("should handle complex array of objects", () => {
+      const store = new Shoy({ users: [{ name: "Alice" }, { name: "Bob" }] });
+      store.apply({ users: [{ name: "Alice" }, { name: "Charlie" }] });
+      expect(store.current.users[1].name).toBe("Charlie");
+    });
+
+    it("should handle function updates with nested changes", () => {
+      const store = new Shoy({ counter: 0, user: { name: "Alice" } });
+      store.apply((prev) => ({
+        counter: prev.counter + 1,
+        user: { name: "Bob" },
+      }));
+      expect(store.current.counter).toBe(1);
+      expect(store.current.user.name).toBe("Bob");
+    });
+  });
+
+  describe("built-in types", () => {
+    it("should detect changes inside a Map", () => {
+      const store = new Shoy({ users: new Map([["a", { name: "Alice" }]]) });
+      const before = store.currentHash;
+
+      store.apply({ users: new Map([["b", { name: "Bob" }]]) });
+
+      expect(store.currentHash).not.toBe(before);
+      expect(store.current.users.get("a")).toEqual({ name: "Alice" });
+      expect(store.current.users.get("b")).toEqual({ name: "Bob" });
+    });
+
+    it("should deep merge Map entries", () => {
+      const store = new Shoy({
+        users: new Map([["a", { name: "Alice", age: 30 }]]),
+      });
+
+      store.apply({ users: new Map([["a", { age: 31 }]]) });
+
+      expect(store.current.users.get("a")).toEqual({ name: "Alice", age: 31 });
+    });
+
+    it("should replace Sets, Dates, BigInts and typed arrays", () => {
+      const store = new Shoy({
+        tags: new Set(["a"]),
+        at: new Date(0),
+        big: BigInt(1),
+        bytes: new Uint8Array([1, 2]),
+      });
+      const hashes = [store.currentHash];
+
+      hashes.push(store.apply({ tags: new Set(["a", "b"]) }));
+      hashes.push(store.apply({ at: new Date(1000) }));
+      hashes.push(store.apply({ big: BigInt(2) }));
+      hashes.push(store.apply({ bytes: new Uint8Array([1, 3]) }));
+
+      expect(new Set(hashes).size).toBe(5);
+      expect(store.current.tags.has("b")).toBe(true);
+      expect(store.current.at.getTime()).toBe(1000);
+      expect(store.current.big).toBe(BigInt(2));
+      expect(Array.from(store.current.bytes)).toEqual([1, 3]);
+    });
+
+    it("should treat equal built-in values as unchanged", () => {
+      const store = new Shoy({ at: new Date(0), tags: new Set([1, 2]) });
+      const callback = jest.fn();
+      store.subscribe(callback);
+
+      store.apply({ at: new Date(0), tags: new Set([2, 1]) });
+
+      expect(callback).not.toHaveBeenCalled();
+    });
+
+    it("should compare object Set members and Map keys by content", () => {
+      const onError = jest.fn();
+      const store = new Shoy(
+        {
+          tags: new Set([{ a: 1 }, { a: 2 }]),
+          index: new Map([[{ id: 1 }, "x"]]),
+        },
+        { maxHistory: 5, onError },
+      );
+      const before = store.currentHash;
+      const callback = jest.fn();
+      store.subscribe(callback);
+
+      store.apply({ tags: new Set([{ a: 2 }, { a: 1 }]) });
+      store.set("index", new Map([[{ id: 1 }, "x"]]));
+
+      expect(store.currentHash).toBe(before);
+      expect(store.history).toHaveLength(1);
+      expect(callback).not.toHaveBeenCalled();
+      expect(onError).not.toHaveBeenCalled();
+      expect(
+        diff({ tags: new Set([{ a: 1 }]) }, { tags: new Set([{ a: 1 }]) }),
+      ).toEqual([]);
+
+      store.set("index", new Map([[{ id: 1 }, "y"]]));
+      expect(store.currentHash).not.toBe(before);
+    });
+  });
+
+  describe("hash consistency", () => {
+    it("should generate same hash for same state", () => {
+      const store1 = new Shoy({ count: 0 });
+      const store2 = new Shoy({ count: 0 });
+
+      const hash1 = store1.apply({ count: 1 });
+      const hash2 = store2.apply({ count: 1 });
+
+      expect(hash1).toBe(hash2);
+    });
+
+    it("should generate different hashes for different states", () => {
+      const store = new Shoy({ count: 0 });
+      const hash1 = store.apply({ count: 1 });
+      const hash2 = store.apply({ count: 2 });
+
+      expect(hash1).not.toBe(hash2);
+    });
+
+    it("should generate stable hash regardless of object key order", () => {
+      const store1 = new Shoy({ a: 1, b: 2, c: 0 });
+      const store2 = new Shoy({ b: 2, a: 1, c: 0 });
+
+      const hash1 = store1.apply({ a: 1, b: 2, c: 3 });
+      const hash2 = store2.apply({ c: 3, b: 2, a: 1 });
+
+      expect(hash1).toBe(hash2);
+    });
+
+    it("should distinguish values with the same string form", () => {
+      const store = new Shoy<unknown>({ value: 1 });
+      const hashes = [1, "1", null, "null", undefined, "undefined"].map(
+        (value) => store.apply({ value }),
+      );
+
+      expect(new Set(hashes).size).toBe(hashes.length);
+    });
+
+    it("should produce at least 64-bit hashes by default", () => {
+      const store = new Shoy({ count: 0 });
+      expect(store.currentHash).toMatch(/^[0-9a-f]{16}$/);
+    });
+
+    it("should use a custom hasher", () => {
+      const hasher = jest.fn((input: string) => `len${input.length}`);
+      const store = new Shoy({ count: 0 }, { hasher });
+
+      expect(hasher).toHaveBeenCalled();
+      expect(store.currentHash).toMatch(/^len\d+$/);
+    });
+
+    it("should not drop a change when two states collide", () => {
+      const onError = jest.fn();
+      const store = new Shoy(
+        { count: 0 },
+        { hasher: () => "same", maxHistory: 10, onError },
+      );
+
+      const hash = store.apply({ count: 1 });
+
+      expect(store.current.count).toBe(1);
+      expect(hash).not.toBe(store.history[0]);
+      expect(onError).toHaveBeenCalledWith(expect.any(Error), "hash");
+      expect(store.revert(store.history[0])).toBe(true);
+      expect(store.current.count).toBe(0);
+    });
+
+    it("should only rehash the changed path", () => {
+      const hasher = jest.fn((input: string) => `h${input}`);
+      const store = new Shoy(
+        { a: { x: 1 }, b: { y: { z: 1 }, list: [{ id: 1 }, { id: 2 }] } },
+        { hasher },
+      );
+      hasher.mockClear();
+
+      store.apply({ a: { x: 2 } });
+
+      expect(hasher).toHaveBeenCalledTimes(2);
+    });
+
+    it("should allow the same object in several places", () => {
+      const shared = { id: 1 };
+      const store = new Shoy({ left: shared, right: shared });
+
+      store.apply({ left: { id: 2 } });
+
+      expect(store.current.right).toBe(shared);
+      expect(store.current.left.id).toBe(2);
+    });
+
+    it("should keep the same hash when a colliding state is equal", () => {
+      const store = new Shoy({ count: 0 }, { hasher: () => "same" });
+      const callback = jest.fn();
+      store.subscribe(callback);
+
+      expect(store.apply({ count: 0 })).toBe("same");
+      expect(callback).not.toHaveBeenCalled();
     });
   });
 });
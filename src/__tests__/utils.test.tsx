@@ -1,6 +1,6 @@
 import React from "react";
 import { render } from "@testing-library/react";
-import { Shoy } from "../index";
+import { Shoy, push } from "../index";
 import {
   useDevTools,
   usePersistence,
@@ -15,6 +15,11 @@ import {
   useSync,
   createLastWriteWinsResolver,
   createMergeResolver,
+  serialize,
+  deserialize,
+  clone,
+  defineActions,
+  replayActions,
 } from "../utils";
 
 const localStorageMock = (() => {
@@ -69,6 +74,46 @@ describe("Utils", () => {
       expect(snapshots.length).toBeLessThanOrEqual(3);
     });
 
+    it("should record commit metadata", () => {
+      const store = new Shoy({ count: 0 });
+      const devtools = useDevTools(store);
+
+      store.apply({ count: 1 }, { action: "increment", meta: { by: 1 } });
+
+      expect(devtools.getSnapshots()[0]).toMatchObject({
+        action: "increment",
+        meta: { by: 1 },
+        state: { count: 1 },
+      });
+    });
+
+    it("should record the diff from the previous snapshot", () => {
+      const store = new Shoy({ count: 0, name: "a" });
+      const devtools = useDevTools(store);
+
+      store.apply({ count: 1 });
+      store.apply({ name: "b" });
+
+      const [first, second] = devtools.getSnapshots();
+      expect(first.diff).toEqual([]);
+      expect(second.diff).toEqual([{ op: "replace", path: "/name", value: "b" }]);
+    });
+
+    it("should record the kind of each change", () => {
+      const store = new Shoy({ count: 0 }, { maxHistory: 10 });
+      const devtools = useDevTools(store);
+
+      store.apply({ count: 1 });
+      store.undo();
+      store.redo();
+
+      expect(devtools.getSnapshots().map((s) => s.type)).toEqual([
+        "commit",
+        "undo",
+        "redo",
+      ]);
+    });
+
     it("should allow clearing snapshots", () => {
       const store = new Shoy({ count: 0 }, { maxHistory: 10 });
       const devtools = useDevTools(store);
@@ -111,6 +156,45 @@ describe("Utils", () => {
     });
   });
 
+  describe("serializer", () => {
+    const value = {
+      users: new Map([["a", { joined: new Date(1000) }]]),
+      tags: new Set(["x", "y"]),
+      big: BigInt("12345678901234567890"),
+      bytes: new Uint8Array([1, 2, 3]),
+      view: new DataView(new Uint8Array([0, 4, 5, 6]).buffer, 1, 2),
+      missing: undefined,
+      nan: NaN,
+      nested: { $shoy: "Map" },
+    };
+
+    it("should round-trip built-in types", () => {
+      const restored = deserialize<typeof value>(serialize(value));
+
+      expect(restored.users.get("a")!.joined).toEqual(new Date(1000));
+      expect(restored.tags).toEqual(new Set(["x", "y"]));
+      expect(restored.big).toBe(BigInt("12345678901234567890"));
+      expect(restored.bytes).toEqual(new Uint8Array([1, 2, 3]));
+      expect(restored.view).toBeInstanceOf(DataView);
+      expect(restored.view.byteLength).toBe(2);
+      expect([restored.view.getUint8(0), restored.view.getUint8(1)]).toEqual([
+        4, 5,
+      ]);
+      expect("missing" in restored).toBe(true);
+      expect(restored.nan).toBeNaN();
+      expect(restored.nested).toEqual({ $shoy: "Map" });
+    });
+
+    it("should deep clone built-in types", () => {
+      const copy = clone(value);
+
+      expect(copy).toEqual(value);
+      expect(copy.users).not.toBe(value.users);
+      expect(copy.users.get("a")).not.toBe(value.users.get("a"));
+      expect(copy.bytes).not.toBe(value.bytes);
+    });
+  });
+
   describe("usePersistence", () => {
     it("should save state to localStorage", () => {
       const store = new Shoy({ count: 0 });
@@ -138,6 +222,42 @@ describe("Utils", () => {
       expect(store.current.count).toBe(100);
     });
 
+    it("should restore Maps and Dates", () => {
+      const initial = { at: new Date(0), ids: new Map<string, number>() };
+      const source = new Shoy(initial);
+      usePersistence(source, { key: "typed-state", throttle: 0 });
+      source.apply({ at: new Date(5000), ids: new Map([["a", 1]]) });
+
+      return new Promise<void>((resolve) => {
+        setTimeout(() => {
+          const store = new Shoy(initial);
+          usePersistence(store, { key: "typed-state" });
+
+          expect(store.current.at).toEqual(new Date(5000));
+          expect(store.current.ids.get("a")).toBe(1);
+          resolve();
+        }, 10);
+      });
+    });
+
+    it("should restore during async initialization", async () => {
+      localStorageMock.setItem("async-state", JSON.stringify({ count: 100 }));
+      let resolve: (state: { count: number; name: string }) => void = () => {};
+      const store = Shoy.create(
+        () =>
+          new Promise<{ count: number; name: string }>((r) => (resolve = r)),
+      );
+      const listener = jest.fn();
+      usePersistence(store, { key: "async-state" });
+      store.subscribe((state) => state.count, listener);
+
+      resolve({ count: 0, name: "loaded" });
+      await store.ready;
+
+      expect(store.current).toEqual({ count: 100, name: "loaded" });
+      expect(listener).toHaveBeenLastCalledWith(100, 0, expect.anything());
+    });
+
     it("should support selective persistence", () => {
       const store = new Shoy({
         count: 5,
@@ -165,6 +285,41 @@ describe("Utils", () => {
       });
     });
 
+    it("should persist a slice", () => {
+      jest.useFakeTimers();
+      try {
+        const store = new Shoy({ settings: { theme: "dark" }, count: 0 });
+        usePersistence(store.slice("settings"), { key: "test-slice" });
+
+        store.apply({ settings: { theme: "light" } });
+        jest.advanceTimersByTime(400);
+
+        expect(JSON.parse(localStorageMock.getItem("test-slice")!)).toEqual({
+          theme: "light",
+        });
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it("should only save on the configured events", () => {
+      jest.useFakeTimers();
+      try {
+        const store = new Shoy({ count: 0 }, { maxHistory: 10 });
+        usePersistence(store, { key: "test-events", events: ["commit"] });
+
+        store.apply({ count: 1 });
+        jest.advanceTimersByTime(400);
+        store.undo();
+        jest.advanceTimersByTime(400);
+
+        const saved = JSON.parse(localStorageMock.getItem("test-events")!);
+        expect(saved.count).toBe(1);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
     it("should return unsubscribe function", () => {
       const store = new Shoy({ count: 0 });
       const unsubscribe = usePersistence(store, { key: "test" });
@@ -174,6 +329,71 @@ describe("Utils", () => {
     });
   });
 
+  describe("defineActions", () => {
+    const handlers = {
+      increment: (s: { count: number; todos: string[] }, by: number) => ({
+        count: s.count + by,
+      }),
+      addTodo: (s: { count: number; todos: string[] }, title: string) => ({
+        todos: [...s.todos, title],
+      }),
+      reset: () => ({ count: 0 }),
+    };
+
+    it("should bind typed action creators that record name and payload", () => {
+      const store = new Shoy(
+        { count: 0, todos: [] as string[] },
+        { maxHistory: 10 },
+      );
+      const devtools = useDevTools(store);
+      const actions = defineActions(store, handlers);
+
+      actions.increment(2);
+      actions.addTodo("write tests");
+      actions.reset();
+
+      expect(store.current).toEqual({ count: 0, todos: ["write tests"] });
+      expect(store.log().slice(0, 3).map((c) => [c.action, c.meta])).toEqual([
+        ["reset", { payload: [] }],
+        ["addTodo", { payload: ["write tests"] }],
+        ["increment", { payload: [2] }],
+      ]);
+      expect(devtools.getSnapshots()[0]).toMatchObject({
+        action: "increment",
+        meta: { payload: [2] },
+      });
+    });
+
+    it("should infer handler state from the store", () => {
+      const store = new Shoy({ count: 1 });
+      const actions = defineActions(store, {
+        double: (s) => ({ count: s.count * 2 }),
+      });
+
+      actions.double();
+      expect(store.current.count).toBe(2);
+    });
+
+    it("should replay actions from a log and skip free-form patches", () => {
+      const source = new Shoy(
+        { count: 0, todos: [] as string[] },
+        { maxHistory: 10 },
+      );
+      const actions = defineActions(source, handlers);
+      actions.increment(5);
+      source.apply({ count: 100 });
+      actions.addTodo("a");
+      actions.increment(1);
+
+      const target = new Shoy({ count: 0, todos: [] as string[] });
+      const hashes = replayActions(target, handlers, source.log().reverse());
+
+      expect(hashes).toHaveLength(3);
+      expect(target.current).toEqual({ count: 6, todos: ["a"] });
+      expect(target.head.action).toBe("increment");
+    });
+  });
+
   describe("useMiddleware", () => {
     it("should execute middleware before update", () => {
       const store = new Shoy({ count: 0 });
@@ -196,6 +416,98 @@ describe("Utils", () => {
 
       expect(afterFn).toHaveBeenCalled();
     });
+
+    it("should pass commit info to middleware", () => {
+      const store = new Shoy({ count: 0 });
+      const afterFn = jest.fn();
+
+      useMiddleware(store, { after: afterFn });
+
+      store.apply({ count: 1 }, { action: "increment" });
+
+      expect(afterFn).toHaveBeenCalledWith(
+        { count: 1 },
+        store.currentHash,
+        { action: "increment" },
+      );
+    });
+
+    it("should pass the merged state for array and nested patches", () => {
+      const store = new Shoy({
+        user: { name: "Ada", age: 30 },
+        todos: ["a"],
+      });
+      const valid = jest.fn(
+        (state: typeof store.current) =>
+          Array.isArray(state.todos) && typeof state.user.age === "number",
+      );
+      useMiddleware(store, createValidatorMiddleware(valid));
+      const consoleSpy = jest.spyOn(console, "error").mockImplementation();
+
+      store.apply({ todos: push("b") });
+      store.apply({ user: { name: "Grace" } });
+
+      expect(consoleSpy).not.toHaveBeenCalled();
+      expect(valid).toHaveBeenLastCalledWith({
+        user: { name: "Grace", age: 30 },
+        todos: ["a", "b"],
+      });
+      expect(store.current).toEqual({
+        user: { name: "Grace", age: 30 },
+        todos: ["a", "b"],
+      });
+      consoleSpy.mockRestore();
+    });
+
+    it("should run for path updates and JSON patches", () => {
+      const store = new Shoy<{ user: { age: number }; todos: string[] }>({
+        user: { age: 30 },
+        todos: [],
+      });
+      useMiddleware(
+        store,
+        createValidatorMiddleware(
+          (state) =>
+            typeof state.user.age === "number" && Array.isArray(state.todos),
+        ),
+      );
+      const consoleSpy = jest.spyOn(console, "error").mockImplementation();
+
+      store.set("user.age", "x" as never);
+      store.applyJsonPatch([{ op: "replace", path: "/todos", value: 5 }]);
+      store.update("user.age", (age) => age + 1);
+      store.delete("todos" as never);
+
+      expect(store.current).toEqual({ user: { age: 31 }, todos: [] });
+      expect(consoleSpy).toHaveBeenCalledTimes(3);
+      consoleSpy.mockRestore();
+    });
+
+    it("should see a transaction as one change", () => {
+      const store = new Shoy({ count: 0 });
+      const before = jest.fn((prev, next) => next);
+      useMiddleware(store, { before });
+
+      store.transaction(() => {
+        store.apply({ count: 1 });
+        store.set("count", 2);
+      });
+
+      expect(before).toHaveBeenCalledTimes(1);
+      expect(before).toHaveBeenCalledWith({ count: 0 }, { count: 2 }, {});
+    });
+
+    it("should scope middleware on a slice", () => {
+      const store = new Shoy({ settings: { theme: "dark" }, count: 0 });
+      useMiddleware(store.slice("settings"), {
+        before: (prev, next) => (next.theme === "" ? prev : next),
+      });
+
+      store.set("settings.theme", "");
+      store.apply({ count: 1 });
+
+      expect(store.current).toEqual({ settings: { theme: "dark" }, count: 1 });
+    });
   });
 
   describe("createLoggerMiddleware", () => {
@@ -208,7 +520,12 @@ describe("Utils", () => {
       const consoleSpy = jest.spyOn(console, "log").mockImplementation();
 
       middleware.before!({ count: 0 }, { count: 1 });
-      expect(consoleSpy).toHaveBeenCalled();
+      expect(consoleSpy).toHaveBeenCalledWith(
+        "[Shoy] State update:",
+        expect.objectContaining({
+          diff: [{ op: "replace", path: "/count", value: 1 }],
+        }),
+      );
 
       consoleSpy.mockRestore();
     });
@@ -558,6 +875,100 @@ describe("Utils", () => {
       sync.disconnect();
     });
 
+    it("should send and apply deltas against the last shared state", () => {
+      Object.assign(mockWebSocket, { OPEN: 1 });
+      const store = new Shoy({ list: [1, 2, 3] });
+      const sync = useSync(store, { url: "ws://localhost:3001" });
+
+      wsInstance.readyState = 1;
+      wsInstance.onopen?.();
+
+      store.apply({ list: [1, 2, 3, 4] });
+      const base = store.currentHash;
+      store.apply({ list: [1, 2, 3, 4, 5] });
+
+      const delta = JSON.parse(wsInstance.send.mock.calls[1][0]);
+      expect(delta.state).toBeUndefined();
+      expect(delta.base).toBe(base);
+      expect(delta.ops).toEqual([{ op: "add", path: "/list/4", value: 5 }]);
+
+      wsInstance.onmessage?.({
+        data: JSON.stringify({
+          hash: "remote",
+          base: store.currentHash,
+          ops: [{ op: "remove", path: "/list/0" }],
+          timestamp: Date.now(),
+        }),
+      });
+      expect(store.current.list).toEqual([2, 3, 4, 5]);
+
+      wsInstance.send.mockClear();
+      wsInstance.onmessage?.({
+        data: JSON.stringify({
+          hash: "other",
+          base: "unknown",
+          ops: [{ op: "remove", path: "/list/0" }],
+          timestamp: Date.now(),
+        }),
+      });
+      expect(store.current.list).toEqual([2, 3, 4, 5]);
+      expect(JSON.parse(wsInstance.send.mock.calls[0][0]).resync).toBe(true);
+      sync.disconnect();
+    });
+
+    it("should sync deleted keys between peers", () => {
+      const sockets: (typeof wsInstance)[] = [];
+      const peer = () => {
+        const socket: typeof wsInstance = {
+          ...wsInstance,
+          readyState: 1,
+          send: jest.fn((data: string) =>
+            sockets
+              .filter((other) => other !== socket)
+              .forEach((other) => other.onmessage?.({ data })),
+          ),
+          close: jest.fn(),
+        };
+        sockets.push(socket);
+        return socket;
+      };
+      (globalThis as any).WebSocket = Object.assign(jest.fn(peer), { OPEN: 1 });
+
+      type State = { user: { name: string; nick?: string } };
+      const a = new Shoy<State>({ user: { name: "Ada", nick: "ada" } });
+      const b = new Shoy<State>({ user: { name: "Ada", nick: "ada" } });
+      const syncA = useSync(a, { url: "ws://localhost:3001" });
+      const syncB = useSync(b, { url: "ws://localhost:3001" });
+      sockets.forEach((socket) => socket.onopen?.());
+
+      a.apply({ user: { name: "Grace" } });
+      a.delete("user.nick");
+      expect(b.current).toEqual({ user: { name: "Grace" } });
+      expect(b.currentHash).toBe(a.currentHash);
+
+      b.apply({ user: { name: "Ada" } });
+      expect(a.current).toEqual({ user: { name: "Ada" } });
+      expect(a.currentHash).toBe(b.currentHash);
+      syncA.disconnect();
+      syncB.disconnect();
+    });
+
+    it("should not broadcast undo and redo", () => {
+      Object.assign(mockWebSocket, { OPEN: 1 });
+      const store = new Shoy({ count: 0 }, { maxHistory: 10 });
+      const sync = useSync(store, { url: "ws://localhost:3001" });
+
+      wsInstance.readyState = 1;
+      wsInstance.onopen?.();
+
+      store.apply({ count: 1 });
+      store.undo();
+      store.redo();
+
+      expect(wsInstance.send).toHaveBeenCalledTimes(1);
+      sync.disconnect();
+    });
+
     it("should disconnect and cleanup", () => {
       jest.useFakeTimers();
       const store = new Shoy({ count: 0 });
@@ -576,4 +987,91 @@ describe("Utils", () => {
       expect(mockWebSocket.mock.calls.length).toBe(1);
     });
   });
+
+  describe("dispose", () => {
+    it("should cancel a pending persistence save", () => {
+      jest.useFakeTimers();
+      try {
+        const store = new Shoy({ count: 0 });
+        usePersistence(store, { key: "disposed-state" });
+
+        store.apply({ count: 1 });
+        store.dispose();
+        jest.advanceTimersByTime(400);
+
+        expect(localStorageMock.getItem("disposed-state")).toBeNull();
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it("should destroy devtools", () => {
+      const store = new Shoy({ count: 0 });
+      const devtools = useDevTools(store);
+      store.apply({ count: 1 });
+
+      store.dispose();
+
+      expect(devtools.getSnapshots()).toEqual([]);
+    });
+
+    it("should not replace apply", () => {
+      const store = new Shoy({ count: 0 });
+      useMiddleware(store, { before: (prev, next) => next });
+      expect(Object.prototype.hasOwnProperty.call(store, "apply")).toBe(false);
+
+      store.dispose();
+
+      expect(store.current).toEqual({ count: 0 });
+    });
+
+    it("should stop running a removed middleware", () => {
+      const store = new Shoy({ count: 0 });
+      const before = jest.fn((prev, next) => next);
+      const remove = useMiddleware(store, { before });
+
+      remove();
+      store.apply({ count: 1 });
+
+      expect(before).not.toHaveBeenCalled();
+
+      useMiddleware(store, { before });
+      store.apply({ count: 2 });
+      remove();
+      store.apply({ count: 3 });
+      expect(before).toHaveBeenCalledTimes(2);
+    });
+
+    it("should disconnect sync without reconnecting", () => {
+      jest.useFakeTimers();
+      try {
+        const socket = {
+          readyState: 1,
+          onopen: null as (() => void) | null,
+          onmessage: null,
+          onerror: null,
+          onclose: null as (() => void) | null,
+          send: jest.fn(),
+          close: jest.fn(function (this: { onclose: (() => void) | null }) {
+            this.onclose?.();
+          }),
+        };
+        const mockWebSocket = jest.fn(() => socket);
+        Object.assign(mockWebSocket, { OPEN: 1 });
+        (globalThis as any).WebSocket = mockWebSocket;
+
+        const store = new Shoy({ count: 0 });
+        useSync(store, { url: "ws://localhost:3001" });
+        socket.onopen?.();
+
+        store.dispose();
+        jest.advanceTimersByTime(5000);
+
+        expect(socket.close).toHaveBeenCalled();
+        expect(mockWebSocket).toHaveBeenCalledTimes(1);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
 });
@@ -0,0 +1,85 @@
+import type { DeepPatch } from "./index";
+
+type Merge = (prev: unknown, patch: unknown) => unknown;
+
+export class ArrayPatch<T> {
+  constructor(
+    readonly op: "push" | "insert" | "remove" | "move" | "patch",
+    private readonly run: (items: T[], merge: Merge) => void,
+  ) {}
+
+  applyTo(prev: readonly T[] | undefined, merge: Merge): T[] {
+    const items = prev ? prev.slice() : [];
+    this.run(items, merge);
+    return items;
+  }
+}
+
+function checkIndex(items: unknown[], index: number, max = items.length - 1) {
+  if (!Number.isInteger(index) || index < 0 || index > max) {
+    throw new RangeError(`Array index out of range: ${index}`);
+  }
+}
+
+export function push<T>(...values: NoInfer<T>[]): ArrayPatch<T> {
+  return new ArrayPatch<T>("push", (items) => {
+    items.push(...values);
+  });
+}
+
+export function insertAt<T>(
+  index: number,
+  ...values: NoInfer<T>[]
+): ArrayPatch<T> {
+  return new ArrayPatch<T>("insert", (items) => {
+    checkIndex(items, index, items.length);
+    items.splice(index, 0, ...values);
+  });
+}
+
+export function removeAt<T>(index: number, count = 1): ArrayPatch<T> {
+  return new ArrayPatch<T>("remove", (items) => {
+    checkIndex(items, index);
+    items.splice(index, count);
+  });
+}
+
+export function move<T>(from: number, to: number): ArrayPatch<T> {
+  return new ArrayPatch<T>("move", (items) => {
+    checkIndex(items, from);
+    checkIndex(items, to);
+    const [item] = items.splice(from, 1);
+    items.splice(to, 0, item);
+  });
+}
+
+export function removeById<T, K extends keyof T>(
+  key: K,
+  id: NoInfer<T[K]>,
+): ArrayPatch<T> {
+  return new ArrayPatch<T>("remove", (items) => {
+    const index = items.findIndex((item) => item[key] === id);
+    if (index >= 0) items.splice(index, 1);
+  });
+}
+
+export function patchById<T, K extends keyof T>(
+  key: K,
+  id: NoInfer<T[K]>,
+  patch: NoInfer<DeepPatch<T>>,
+): ArrayPatch<T> {
+  return new ArrayPatch<T>("patch", (items, merge) => {
+    const index = items.findIndex((item) => item[key] === id);
+    if (index >= 0) items[index] = merge(items[index], patch) as T;
+  });
+}
+
+export function patchAt<T>(
+  index: number,
+  patch: NoInfer<DeepPatch<T>> | NoInfer<T>,
+): ArrayPatch<T> {
+  return new ArrayPatch<T>("patch", (items, merge) => {
+    checkIndex(items, index, items.length);
+    items[index] = merge(items[index], patch) as T;
+  });
+}
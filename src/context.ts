@@ -0,0 +1,53 @@
+import * as React from "react";
+import {
+  useApply,
+  type Shoy,
+  type Patch,
+  type CommitInfo,
+  type Hash,
+} from "./index";
+import { useSelector } from "./utils/query";
+
+export interface ProviderProps<S> {
+  store: Shoy<S>;
+  children?: React.ReactNode;
+}
+
+export interface StoreContext<S> {
+  Provider: (props: ProviderProps<S>) => React.ReactElement;
+  useStore: () => Shoy<S>;
+  useGet: <R>(
+    selector: (state: S) => R,
+    equalityFn?: (a: R, b: R) => boolean,
+  ) => R;
+  useApply: () => (patch: Patch<S>, info?: CommitInfo) => Hash;
+}
+
+export function createStoreContext<S>(): StoreContext<S> {
+  const Context = React.createContext<Shoy<S> | null>(null);
+
+  const useStore = () => {
+    const store = React.useContext(Context);
+    if (!store) {
+      throw new Error("useStore must be used inside a store Provider");
+    }
+    return store;
+  };
+
+  return {
+    Provider: ({ store, children }) =>
+      React.createElement(Context.Provider, { value: store }, children),
+    useStore,
+    useGet: (selector, equalityFn) =>
+      useSelector(useStore(), selector, equalityFn),
+    useApply: () => useApply(useStore()),
+  };
+}
+
+const shared = createStoreContext<unknown>();
+
+export const ShoyProvider = shared.Provider as <S>(
+  props: ProviderProps<S>,
+) => React.ReactElement;
+
+export const useStore = shared.useStore as <S>() => Shoy<S>;
@@ -0,0 +1,66 @@
+import { Shoy, type Hash, type Listener } from "./index";
+
+export type ReadableStore<S> = Pick<
+  Shoy<S>,
+  "current" | "currentHash" | "subscribe"
+>;
+
+interface Input<S = unknown> {
+  readonly current: S;
+  readonly currentHash: Hash;
+  subscribe(cb: Listener): () => void;
+}
+
+type Values<T extends readonly Input[]> = {
+  [K in keyof T]: T[K] extends Input<infer V> ? V : never;
+};
+
+export class DerivedStore<R> implements ReadableStore<R> {
+  private readonly store: Shoy<R>;
+  private readonly inputs: readonly Input[];
+  private readonly unsubscribers: (() => void)[];
+  private readonly compute: (...values: unknown[]) => R;
+  private hashes: Hash[];
+
+  readonly subscribe: Shoy<R>["subscribe"];
+
+  constructor(inputs: readonly Input[], compute: (...values: unknown[]) => R) {
+    this.inputs = inputs;
+    this.compute = compute;
+    this.hashes = inputs.map((input) => input.currentHash);
+    this.store = new Shoy(compute(...inputs.map((input) => input.current)));
+    this.subscribe = this.store.subscribe.bind(this.store);
+    this.unsubscribers = inputs.map((input) =>
+      input.subscribe(() => this.refresh()),
+    );
+  }
+
+  private refresh(): void {
+    const hashes = this.inputs.map((input) => input.currentHash);
+    if (hashes.every((hash, i) => hash === this.hashes[i])) return;
+
+    this.hashes = hashes;
+    const next = this.compute(...this.inputs.map((input) => input.current));
+    this.store.applyJsonPatch([{ op: "replace", path: "", value: next }]);
+  }
+
+  get current(): R {
+    return this.store.current;
+  }
+
+  get currentHash(): Hash {
+    return this.store.currentHash;
+  }
+
+  dispose(): void {
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers.length = 0;
+  }
+}
+
+export function derive<const T extends readonly Input[], R>(
+  inputs: T,
+  compute: (...values: Values<T>) => R,
+): DerivedStore<R> {
+  return new DerivedStore(inputs, compute as (...values: unknown[]) => R);
+}
@@ -0,0 +1,255 @@
+import { isEqual } from "./equal";
+import { kindOf } from "./kind";
+
+export type Operation =
+  | { op: "add"; path: string; value: unknown }
+  | { op: "remove"; path: string }
+  | { op: "replace"; path: string; value: unknown }
+  | { op: "move"; from: string; path: string }
+  | { op: "copy"; from: string; path: string }
+  | { op: "test"; path: string; value: unknown };
+
+type Container = Record<string, unknown> | unknown[];
+
+function escape(token: string): string {
+  return token.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+function unescape(token: string): string {
+  return token.replace(/~1/g, "/").replace(/~0/g, "~");
+}
+
+export function toPointer(path: readonly (string | number)[]): string {
+  return path.map((token) => "/" + escape(String(token))).join("");
+}
+
+export function parsePointer(pointer: string): string[] {
+  if (pointer === "") return [];
+  if (!pointer.startsWith("/")) {
+    throw new Error(`Invalid JSON pointer: ${pointer}`);
+  }
+  return pointer.slice(1).split("/").map(unescape);
+}
+
+export function diff(prev: unknown, next: unknown): Operation[] {
+  const ops: Operation[] = [];
+  collect(prev, next, "", ops);
+  return ops;
+}
+
+function collect(
+  prev: unknown,
+  next: unknown,
+  path: string,
+  ops: Operation[],
+): void {
+  if (Object.is(prev, next)) return;
+
+  const kind = kindOf(prev);
+  if (kind !== kindOf(next) || (kind !== "object" && kind !== "array")) {
+    if (!isEqual(prev, next)) ops.push({ op: "replace", path, value: next });
+    return;
+  }
+
+  if (kind === "array") {
+    const from = prev as unknown[];
+    const to = next as unknown[];
+    let start = 0;
+    let fromEnd = from.length;
+    let toEnd = to.length;
+    while (
+      start < fromEnd &&
+      start < toEnd &&
+      isEqual(from[start], to[start])
+    ) {
+      start++;
+    }
+    while (
+      fromEnd > start &&
+      toEnd > start &&
+      isEqual(from[fromEnd - 1], to[toEnd - 1])
+    ) {
+      fromEnd--;
+      toEnd--;
+    }
+
+    const common = start + Math.min(fromEnd - start, toEnd - start);
+    for (let i = start; i < common; i++) {
+      collect(from[i], to[i], `${path}/${i}`, ops);
+    }
+    for (let i = common; i < toEnd; i++) {
+      ops.push({ op: "add", path: `${path}/${i}`, value: to[i] });
+    }
+    for (let i = fromEnd - 1; i >= common; i--) {
+      ops.push({ op: "remove", path: `${path}/${i}` });
+    }
+    return;
+  }
+
+  const from = prev as Record<string, unknown>;
+  const to = next as Record<string, unknown>;
+  for (const key of Object.keys(from)) {
+    const child = `${path}/${escape(key)}`;
+    if (!Object.prototype.hasOwnProperty.call(to, key)) {
+      ops.push({ op: "remove", path: child });
+    } else {
+      collect(from[key], to[key], child, ops);
+    }
+  }
+  for (const key of Object.keys(to)) {
+    if (!Object.prototype.hasOwnProperty.call(from, key)) {
+      ops.push({ op: "add", path: `${path}/${escape(key)}`, value: to[key] });
+    }
+  }
+}
+
+function read(doc: unknown, tokens: string[], pointer: string): unknown {
+  let value = doc;
+  for (const token of tokens) {
+    if (
+      typeof value !== "object" ||
+      value === null ||
+      !Object.prototype.hasOwnProperty.call(value, token)
+    ) {
+      throw new Error(`Path not found: ${pointer}`);
+    }
+    value = (value as Record<string, unknown>)[token];
+  }
+  return value;
+}
+
+function shallowCopy(value: unknown, pointer: string): Container {
+  if (Array.isArray(value)) return value.slice();
+  if (kindOf(value) === "object") {
+    return { ...(value as Record<string, unknown>) };
+  }
+  throw new Error(`Path not found: ${pointer}`);
+}
+
+function arrayIndex(
+  array: unknown[],
+  token: string,
+  pointer: string,
+  insert: boolean,
+): number {
+  if (insert && token === "-") return array.length;
+  const index = Number(token);
+  const max = insert ? array.length : array.length - 1;
+  if (!/^(0|[1-9]\d*)$/.test(token) || index > max) {
+    throw new Error(`Invalid array index in path: ${pointer}`);
+  }
+  return index;
+}
+
+function write(
+  doc: unknown,
+  tokens: string[],
+  pointer: string,
+  change: (parent: Container, token: string) => void,
+): unknown {
+  if (tokens.length === 0) {
+    throw new Error(`Cannot modify the document root: ${pointer}`);
+  }
+  const [token, ...rest] = tokens;
+  const copy = shallowCopy(doc, pointer);
+
+  if (rest.length === 0) {
+    change(copy, token);
+    return copy;
+  }
+
+  const key = Array.isArray(copy)
+    ? arrayIndex(copy, token, pointer, false)
+    : token;
+  const child = read(copy, [String(key)], pointer);
+  (copy as Record<string, unknown>)[key] = write(child, rest, pointer, change);
+  return copy;
+}
+
+function add(doc: unknown, pointer: string, value: unknown): unknown {
+  const tokens = parsePointer(pointer);
+  if (tokens.length === 0) return value;
+  return write(doc, tokens, pointer, (parent, token) => {
+    if (Array.isArray(parent)) {
+      parent.splice(arrayIndex(parent, token, pointer, true), 0, value);
+    } else {
+      parent[token] = value;
+    }
+  });
+}
+
+function remove(doc: unknown, pointer: string): unknown {
+  const tokens = parsePointer(pointer);
+  read(doc, tokens, pointer);
+  return write(doc, tokens, pointer, (parent, token) => {
+    if (Array.isArray(parent)) {
+      parent.splice(arrayIndex(parent, token, pointer, false), 1);
+    } else {
+      delete parent[token];
+    }
+  });
+}
+
+function replace(doc: unknown, pointer: string, value: unknown): unknown {
+  const tokens = parsePointer(pointer);
+  read(doc, tokens, pointer);
+  if (tokens.length === 0) return value;
+  return write(doc, tokens, pointer, (parent, token) => {
+    if (Array.isArray(parent)) {
+      parent[arrayIndex(parent, token, pointer, false)] = value;
+    } else {
+      parent[token] = value;
+    }
+  });
+}
+
+export function applyOperations<T>(doc: T, ops: readonly Operation[]): T {
+  let result: unknown = doc;
+  for (const operation of ops) {
+    switch (operation.op) {
+      case "add":
+        result = add(result, operation.path, operation.value);
+        break;
+      case "remove":
+        result = remove(result, operation.path);
+        break;
+      case "replace":
+        result = replace(result, operation.path, operation.value);
+        break;
+      case "move": {
+        const value = read(
+          result,
+          parsePointer(operation.from),
+          operation.from,
+        );
+        result = add(remove(result, operation.from), operation.path, value);
+        break;
+      }
+      case "copy": {
+        const value = read(
+          result,
+          parsePointer(operation.from),
+          operation.from,
+        );
+        result = add(result, operation.path, value);
+        break;
+      }
+      case "test": {
+        const value = read(
+          result,
+          parsePointer(operation.path),
+          operation.path,
+        );
+        if (!isEqual(value, operation.value)) {
+          throw new Error(`Test operation failed at ${operation.path}`);
+        }
+        break;
+      }
+      default:
+        throw new Error(
+          `Unknown JSON Patch operation: ${(operation as { op: string }).op}`,
+        );
+    }
+  }
+  return result as T;
+}
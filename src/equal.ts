@@ -0,0 +1,125 @@
+import { bytesOf, kindOf } from "./kind";
+
+function sameEntries(
+  left: Map<unknown, unknown> | Set<unknown>,
+  right: Map<unknown, unknown> | Set<unknown>,
+  equals: (a: unknown, b: unknown) => boolean,
+): boolean {
+  if (left.size !== right.size) return false;
+
+  const valueOf = (key: unknown) =>
+    right instanceof Map ? right.get(key) : key;
+  const matched = new Set<unknown>();
+  const unmatched: [unknown, unknown][] = [];
+  for (const [key, value] of left.entries()) {
+    if (right.has(key)) {
+      if (!equals(value, valueOf(key))) return false;
+      matched.add(key);
+    } else if (kindOf(key) === "primitive") {
+      return false;
+    } else {
+      unmatched.push([key, value]);
+    }
+  }
+  if (unmatched.length === 0) return true;
+
+  const candidates = [...right.entries()].filter(([key]) => !matched.has(key));
+  return unmatched.every(([key, value]) => {
+    const index = candidates.findIndex(
+      ([other, item]) =>
+        isEqual(key, other) && (right instanceof Set || equals(value, item)),
+    );
+    if (index === -1) return false;
+    candidates.splice(index, 1);
+    return true;
+  });
+}
+
+export function isEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+
+  const kind = kindOf(a);
+  if (kind === "primitive" || kind !== kindOf(b)) return false;
+
+  switch (kind) {
+    case "array": {
+      const left = a as unknown[];
+      const right = b as unknown[];
+      if (left.length !== right.length) return false;
+      for (let i = 0; i < left.length; i++) {
+        if (!isEqual(left[i], right[i])) return false;
+      }
+      return true;
+    }
+    case "map":
+    case "set":
+      return sameEntries(
+        a as Map<unknown, unknown> | Set<unknown>,
+        b as Map<unknown, unknown> | Set<unknown>,
+        isEqual,
+      );
+    case "date":
+      return Object.is((a as Date).getTime(), (b as Date).getTime());
+    case "binary": {
+      if ((a as object).constructor !== (b as object).constructor) return false;
+      const left = bytesOf(a as ArrayBufferView);
+      const right = bytesOf(b as ArrayBufferView);
+      if (left.length !== right.length) return false;
+      for (let i = 0; i < left.length; i++) {
+        if (left[i] !== right[i]) return false;
+      }
+      return true;
+    }
+  }
+
+  const left = a as Record<string, unknown>;
+  const right = b as Record<string, unknown>;
+  const keys = Object.keys(left);
+  if (keys.length !== Object.keys(right).length) return false;
+
+  for (const key of keys) {
+    if (!Object.prototype.hasOwnProperty.call(right, key)) return false;
+    if (!isEqual(left[key], right[key])) return false;
+  }
+  return true;
+}
+
+export function shallowEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+
+  const kind = kindOf(a);
+  if (kind === "primitive" || kind !== kindOf(b)) return false;
+
+  switch (kind) {
+    case "array": {
+      const left = a as unknown[];
+      const right = b as unknown[];
+      return (
+        left.length === right.length &&
+        left.every((item, i) => Object.is(item, right[i]))
+      );
+    }
+    case "map":
+    case "set":
+      return sameEntries(
+        a as Map<unknown, unknown> | Set<unknown>,
+        b as Map<unknown, unknown> | Set<unknown>,
+        Object.is,
+      );
+    case "object": {
+      const left = a as Record<string, unknown>;
+      const right = b as Record<string, unknown>;
+      const keys = Object.keys(left);
+      return (
+        keys.length === Object.keys(right).length &&
+        keys.every(
+          (key) =>
+            Object.prototype.hasOwnProperty.call(right, key) &&
+            Object.is(left[key], right[key]),
+        )
+      );
+    }
+    default:
+      return isEqual(a, b);
+  }
+}
@@ -0,0 +1,58 @@
+import { kindOf } from "./kind";
+
+const mutators = {
+  map: ["set", "delete", "clear"],
+  set: ["add", "delete", "clear"],
+  date: Object.getOwnPropertyNames(Date.prototype).filter((name) =>
+    name.startsWith("set"),
+  ),
+};
+
+function lock(value: object, kind: keyof typeof mutators): void {
+  for (const method of mutators[kind]) {
+    Object.defineProperty(value, method, {
+      value: () => {
+        throw new TypeError(
+          `Cannot call ${method} on a frozen ${value.constructor.name}`,
+        );
+      },
+    });
+  }
+  Object.freeze(value);
+}
+
+function freeze(value: unknown): void {
+  if (typeof value !== "object" || value === null || Object.isFrozen(value)) {
+    return;
+  }
+
+  switch (kindOf(value)) {
+    case "array":
+      Object.freeze(value);
+      (value as unknown[]).forEach(freeze);
+      break;
+    case "map":
+      lock(value, "map");
+      (value as Map<unknown, unknown>).forEach((item, key) => {
+        freeze(key);
+        freeze(item);
+      });
+      break;
+    case "set":
+      lock(value, "set");
+      (value as Set<unknown>).forEach(freeze);
+      break;
+    case "date":
+      lock(value, "date");
+      break;
+    case "object":
+      Object.freeze(value);
+      Object.values(value).forEach(freeze);
+      break;
+  }
+}
+
+export function deepFreeze<T>(value: T): T {
+  freeze(value);
+  return value;
+}
@@ -0,0 +1,140 @@
+import { bytesOf, kindOf } from "./kind";
+
+export type Hasher = (input: string) => string;
+
+function hex(n: number): string {
+  return (n >>> 0).toString(16).padStart(8, "0");
+}
+
+export const defaultHasher: Hasher = (input) => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < input.length; i++) {
+    const ch = input.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return hex(h2) + hex(h1);
+};
+
+function encodeString(value: string): string {
+  return `${value.length}:${value}`;
+}
+
+function encodePrimitive(value: unknown): string {
+  switch (typeof value) {
+    case "undefined":
+      return "u";
+    case "boolean":
+      return value ? "b1" : "b0";
+    case "number":
+      return "n" + (Object.is(value, -0) ? "-0" : String(value));
+    case "string":
+      return "s" + encodeString(value);
+    case "bigint":
+      return "g" + value.toString();
+    case "symbol":
+      return "y" + encodeString(String(value.description));
+    case "function":
+      return "f" + encodeString(value.name);
+    default:
+      return value === null ? "z" : "?";
+  }
+}
+
+export class MerkleHasher {
+  private readonly cache = new WeakMap<object, string>();
+
+  constructor(private readonly hasher: Hasher) {}
+
+  hash(value: unknown): string {
+    if (typeof value !== "object" || value === null) {
+      return this.hasher(encodePrimitive(value));
+    }
+    return this.node(value, new Set());
+  }
+
+  private node(obj: object, ancestors: Set<object>): string {
+    const cached = this.cache.get(obj);
+    if (cached !== undefined) return cached;
+
+    if (ancestors.has(obj)) {
+      throw new Error("Circular reference detected in state object");
+    }
+    ancestors.add(obj);
+
+    const encoded = this.encode(obj, ancestors);
+
+    ancestors.delete(obj);
+
+    const hash = this.hasher(encoded);
+    this.cache.set(obj, hash);
+    return hash;
+  }
+
+  private encode(obj: object, ancestors: Set<object>): string {
+    switch (kindOf(obj)) {
+      case "array":
+        return (
+          "[" +
+          (obj as unknown[])
+            .map((item) => this.child(item, ancestors))
+            .join(",") +
+          "]"
+        );
+      case "map":
+        return (
+          "M{" +
+          Array.from(
+            obj as Map<unknown, unknown>,
+            ([key, value]) =>
+              this.child(key, ancestors) + "=" + this.child(value, ancestors),
+          )
+            .sort()
+            .join(",") +
+          "}"
+        );
+      case "set":
+        return (
+          "S[" +
+          Array.from(obj as Set<unknown>, (item) => this.child(item, ancestors))
+            .sort()
+            .join(",") +
+          "]"
+        );
+      case "date":
+        return "D" + (obj as Date).getTime();
+      case "binary":
+        return (
+          "B" +
+          encodeString(obj.constructor.name) +
+          bytesOf(obj as ArrayBufferView).join(",")
+        );
+      default: {
+        const record = obj as Record<string, unknown>;
+        return (
+          "{" +
+          Object.keys(record)
+            .sort()
+            .map(
+              (key) =>
+                encodeString(key) + "=" + this.child(record[key], ancestors),
+            )
+            .join(",") +
+          "}"
+        );
+      }
+    }
+  }
+
+  private child(value: unknown, ancestors: Set<object>): string {
+    if (typeof value !== "object" || value === null) {
+      return encodePrimitive(value);
+    }
+    return "#" + this.node(value, ancestors);
+  }
+}
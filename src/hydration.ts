@@ -0,0 +1,34 @@
+import type { Hash } from "./index";
+import { serialize, deserialize } from "./utils/serializer";
+
+export const HYDRATION_FORMAT = "shoy-state";
+export const HYDRATION_VERSION = 1;
+
+export interface DehydratedEntry {
+  path: string;
+  hash: Hash;
+  value: unknown;
+}
+
+export interface DehydratedState {
+  format: typeof HYDRATION_FORMAT;
+  version: typeof HYDRATION_VERSION;
+  hash: Hash;
+  entries: DehydratedEntry[];
+  repository?: string;
+}
+
+export function encodeHydration(state: DehydratedState): string {
+  return serialize(state);
+}
+
+export function decodeHydration(payload: string): DehydratedState {
+  const state = deserialize<Partial<DehydratedState> | null>(payload);
+  if (state?.format !== HYDRATION_FORMAT || !Array.isArray(state.entries)) {
+    throw new Error("Invalid hydration payload");
+  }
+  if (state.version !== HYDRATION_VERSION) {
+    throw new Error(`Unsupported hydration version: ${state.version}`);
+  }
+  return state as DehydratedState;
+}
@@ -1,140 +1,403 @@
 import * as React from "react";
+import { defaultHasher, MerkleHasher, type Hasher } from "./hash";
+import { isEqual } from "./equal";
+import { deepFreeze } from "./freeze";
+import { kindOf, type Builtin } from "./kind";
+import { Timeline } from "./timeline";
+import { ArrayPatch } from "./array";
+import { Slice } from "./slice";
+import { VersionStore } from "./versions";
+import {
+  decodeHydration,
+  encodeHydration,
+  HYDRATION_FORMAT,
+  HYDRATION_VERSION,
+  type DehydratedEntry,
+} from "./hydration";
+import {
+  decodeRepository,
+  encodeRepository,
+  REPOSITORY_FORMAT,
+  REPOSITORY_VERSION,
+  type RepositoryBundle,
+  type RepositoryFormat,
+} from "./repository";
+import {
+  MemoryTracker,
+  type HistoryStats,
+  type RetentionPolicy,
+} from "./retention";
+import { applyOperations, diff, type Operation } from "./diff";
+import {
+  deleteIn,
+  getIn,
+  setIn,
+  splitPath,
+  type DeletablePath,
+  type Path,
+  type PathValue,
+} from "./path";
 
-export type Patch<S> = S extends object
-  ? Partial<S> | ((prev: S) => Partial<S>)
-  : S | ((prev: S) => S);
+export const DELETE: unique symbol = Symbol("shoy.delete");
+
+type MapPatch<T> =
+  T extends Map<infer K, infer V>
+    ? Map<K, PatchValue<V> | typeof DELETE>
+    : never;
+
+type PatchValue<T> =
+  T extends Map<unknown, unknown>
+    ? MapPatch<T>
+    : T extends Builtin
+      ? T
+      : T extends readonly (infer E)[]
+        ? T | ArrayPatch<E>
+        : T extends object
+          ? DeepPatch<T>
+          : T;
+
+export type DeepPatch<S> = {
+  [K in keyof S]?:
+    | PatchValue<S[K]>
+    | (undefined extends S[K] ? typeof DELETE : never);
+};
+
+export type Patch<S> =
+  S extends Map<unknown, unknown>
+    ? MapPatch<S> | ((prev: S) => MapPatch<S>)
+    : S extends Builtin
+      ? S | ((prev: S) => S)
+      : S extends readonly (infer E)[]
+        ? S | ArrayPatch<E> | ((prev: S) => S | ArrayPatch<E>)
+        : S extends object
+          ? DeepPatch<S> | ((prev: S) => DeepPatch<S>)
+          : S | ((prev: S) => S);
 
 export type Hash = string;
 
+export type { Hasher } from "./hash";
+export { defaultHasher } from "./hash";
+export type { Operation } from "./diff";
+export type { DeletablePath, Path, PathValue } from "./path";
+export { diff, applyOperations } from "./diff";
+export { shallowEqual } from "./equal";
+export { derive, DerivedStore, type ReadableStore } from "./derive";
+export {
+  ArrayPatch,
+  push,
+  insertAt,
+  removeAt,
+  move,
+  removeById,
+  patchById,
+  patchAt,
+} from "./array";
+export { Slice } from "./slice";
+export {
+  createStoreContext,
+  ShoyProvider,
+  useStore,
+  type ProviderProps,
+  type StoreContext,
+} from "./context";
+export type { HistoryStats, RetentionPolicy } from "./retention";
+export type { RepositoryBundle, RepositoryFormat } from "./repository";
+export type { DehydratedEntry, DehydratedState } from "./hydration";
+
+export interface CommitInfo {
+  action?: string;
+  message?: string;
+  meta?: Record<string, unknown>;
+}
+
+export interface Commit extends CommitInfo {
+  id: string;
+  hash: Hash;
+  parent: string | null;
+  branch: string | null;
+  timestamp: number;
+}
+
+export type Listener = (hash: Hash, commit: Commit) => void;
+
+export type ChangeType = "commit" | "undo" | "redo" | "revert" | "restore";
+
+export interface ChangeEvent<T extends ChangeType = ChangeType> {
+  type: T;
+  hash: Hash;
+  prevHash: Hash;
+  commit: Commit;
+}
+
+export interface ErrorEvent {
+  type: "error";
+  error: Error;
+  context: string;
+}
+
+export interface DisposeEvent {
+  type: "dispose";
+}
+
+export interface StoreEvents {
+  commit: ChangeEvent<"commit">;
+  undo: ChangeEvent<"undo">;
+  redo: ChangeEvent<"redo">;
+  revert: ChangeEvent<"revert">;
+  restore: ChangeEvent<"restore">;
+  error: ErrorEvent;
+  dispose: DisposeEvent;
+}
+
+export interface ChangeMeta {
+  hash: Hash;
+  prevHash: Hash;
+  commit: Commit;
+}
+
+export type ChangeListener<T> = (next: T, prev: T, meta: ChangeMeta) => void;
+
+export interface SubscribeOptions<T> {
+  equals?: (a: T, b: T) => boolean;
+}
+
+export interface PathSubscribeOptions<S, P extends Path<S>>
+  extends SubscribeOptions<PathValue<S, P>> {
+  path: P;
+}
+
+export interface ActionContext<S> {
+  readonly signal: AbortSignal;
+  readonly current: S;
+  apply(patch: Patch<S>, info?: CommitInfo): Hash;
+}
+
+export interface ActionOptions {
+  name?: string;
+  cancelPrevious?: boolean;
+  signal?: AbortSignal;
+}
+
+export interface ActionStatus {
+  pending: boolean;
+  error: Error | null;
+}
+
+export interface Interceptor<S> {
+  before?: (prev: S, next: S, info: CommitInfo) => S | void;
+  after?: (state: S, hash: Hash, info: CommitInfo) => void;
+}
+
+interface Draft<S> {
+  state: S;
+  info: CommitInfo;
+}
+
+export type StoreLike<S> = Pick<
+  Shoy<S>,
+  | "current"
+  | "currentHash"
+  | "apply"
+  | "applyJsonPatch"
+  | "subscribe"
+  | "on"
+  | "intercept"
+>;
+
+export type StoreStatus = "initializing" | "ready" | "failed" | "disposed";
+
+export interface DehydrateOptions<S> {
+  paths?: Path<S>[];
+  history?: boolean;
+}
+
+export interface HydrateOptions<S> {
+  paths?: Path<S>[];
+}
+
+export interface VersionMismatch {
+  hash: Hash;
+  actual: Hash;
+}
+
 interface Options {
   maxHistory?: number;
+  hasher?: Hasher;
+  strict?: boolean;
+  retention?: RetentionPolicy;
+  keyframeInterval?: number;
   onError?: (error: Error, context: string) => void;
 }
 
 export class Shoy<S> {
-  private readonly versions = new Map<Hash, S>();
+  static readonly DELETE: typeof DELETE = DELETE;
+
+  private readonly versions: VersionStore<S>;
+  private readonly commits = new Map<string, Commit>();
+  private readonly refs = new Map<string, string>();
+  private readonly timelines = new Map<string | null, Timeline>();
+  private headId = "";
+  private headBranch: string | null = "main";
+  private sequence = 0;
   private rootHash: Hash = "";
-  private readonly listeners = new Set<(hash: Hash) => void>();
+  private draft: Draft<S> | null = null;
+  private phase: StoreStatus = "ready";
+  private readiness: Promise<Shoy<S>> = Promise.resolve(this);
+  private queued: (() => void)[] = [];
+  private readonly listeners = new Set<Listener>();
+  private interceptors: Interceptor<S>[] = [];
+  private readonly running = new Map<string, Set<AbortController>>();
+  private readonly actionErrors = new Map<string, Error>();
+  private readonly actionListeners = new Set<() => void>();
+  private readonly slices = new Map<string, Slice<unknown>>();
+  private readonly pinned = new Set<string>();
+  private readonly ordinals = new Map<string, number>();
+  private readonly memory = new MemoryTracker();
+  private readonly retention: RetentionPolicy;
+  private commitCount = 0;
+  private readonly handlers = new Map<
+    keyof StoreEvents,
+    Set<(event: never) => void>
+  >();
   private readonly maxHistory: number;
+  private readonly hasher: MerkleHasher;
+  private readonly hashFn: Hasher;
+  private readonly strict: boolean;
   private readonly onError?: (error: Error, context: string) => void;
 
   constructor(initialState: S, options: Options = {}) {
     this.maxHistory = options.maxHistory ?? 0;
+    this.hashFn = options.hasher ?? defaultHasher;
+    this.hasher = new MerkleHasher(this.hashFn);
+    this.strict = options.strict ?? false;
+    this.retention = options.retention ?? {};
+    this.versions = new VersionStore(
+      options.keyframeInterval ?? 1,
+      this.memory,
+      (state) => this.freeze(state),
+    );
     this.onError = options.onError;
 
     try {
-      this.validateState(initialState);
-      const initHash = this.hash(initialState);
-      this.versions.set(initHash, initialState);
-      this.rootHash = initHash;
+      const initHash = this.address(initialState);
+      this.versions.set(initHash, this.freeze(initialState));
+      this.record(initHash);
     } catch (error) {
       this.handleError(error as Error, "constructor");
       throw error;
     }
   }
 
-  private isObject<T>(value: T): boolean {
-    return typeof value === "object" && value !== null;
-  }
-
   private isPrimitive<T>(value: T): boolean {
     return typeof value !== "object" || value === null;
   }
 
-  private deepMerge<T>(prev: T, patch: Partial<T>): T {
-    if (this.isPrimitive(prev) || this.isPrimitive(patch)) {
-      return patch as T;
-    }
+  private isMergeable(prev: unknown, patch: unknown): boolean {
+    const kind = kindOf(prev);
+    return (kind === "object" || kind === "map") && kind === kindOf(patch);
+  }
 
-    if (Array.isArray(prev) || Array.isArray(patch)) {
-      return patch as T;
+  private withoutDeletes(
+    value: unknown,
+    ancestors = new Set<object>(),
+  ): unknown {
+    if (value instanceof ArrayPatch) {
+      return value.applyTo(undefined, (item, patch) =>
+        this.deepMerge(item, patch),
+      );
+    }
+    if (kindOf(value) !== "object" || ancestors.has(value as object)) {
+      return value;
     }
 
-    const result = { ...(prev as object) } as T;
-    for (const key in patch) {
-      if (patch.hasOwnProperty(key)) {
-        const prevValue = (prev as Record<string, unknown>)[key];
-        const patchValue = patch[key];
+    const record = value as Record<string, unknown>;
+    let copy: Record<string, unknown> | undefined;
+    ancestors.add(record);
+    for (const key of Object.keys(record)) {
+      const item = record[key];
+      const cleaned =
+        item === DELETE ? item : this.withoutDeletes(item, ancestors);
+      if (cleaned === item && item !== DELETE) continue;
 
-        if (
-          this.isObject(prevValue) &&
-          this.isObject(patchValue) &&
-          !Array.isArray(prevValue) &&
-          !Array.isArray(patchValue)
-        ) {
-          (result as Record<string, unknown>)[key] = this.deepMerge(
-            prevValue,
-            patchValue as Partial<typeof prevValue>,
-          );
-        } else {
-          (result as Record<string, unknown>)[key] = patchValue;
-        }
-      }
+      copy ??= { ...record };
+      if (item === DELETE) delete copy[key];
+      else copy[key] = cleaned;
     }
-    return result;
+    ancestors.delete(record);
+    return copy ?? value;
   }
 
-  private hash(state: S): Hash {
-    if (this.isPrimitive(state)) {
-      return "p" + String(state);
+  private deepMerge<T>(prev: T, patch: unknown): T {
+    if (patch instanceof ArrayPatch) {
+      if (prev !== undefined && !Array.isArray(prev)) {
+        throw new Error(`Cannot apply array ${patch.op} to a non-array value`);
+      }
+      return patch.applyTo(prev as unknown[] | undefined, (item, value) =>
+        this.deepMerge(item, value),
+      ) as T;
     }
 
-    const hashStr = this.fastObjectHash<S>(state);
-    let h = 5381;
-    for (let i = 0; i < hashStr.length; i++) {
-      h = (h * 33) ^ hashStr.charCodeAt(i);
+    if (!this.isMergeable(prev, patch)) {
+      return this.withoutDeletes(patch) as T;
     }
-    return "i" + (h >>> 0).toString(36);
-  }
 
-  private fastObjectHash<S>(obj: S): string {
-    if (Array.isArray(obj)) {
-      return (
-        "[" +
-        obj
-          .map((item) =>
-            this.isObject(item) ? this.fastObjectHash(item) : String(item),
-          )
-          .join(",") +
-        "]"
-      );
+    if (prev instanceof Map) {
+      const result = new Map(prev);
+      for (const [key, value] of patch as Map<unknown, unknown>) {
+        if (value === DELETE) result.delete(key);
+        else result.set(key, this.deepMerge(result.get(key), value));
+      }
+      return result as T;
     }
 
-    const keys = Object.keys(obj as Record<string, unknown>).sort();
-
-    return (
-      "{" +
-      keys
-        .map((key) => {
-          const value = (obj as Record<string, unknown>)[key];
-          const valueStr = this.isObject(value)
-            ? this.fastObjectHash(value as object)
-            : String(value);
-          return `${key}:${valueStr}`;
-        })
-        .join(",") +
-      "}"
-    );
+    const result = { ...(prev as object) } as Record<string, unknown>;
+    const record = patch as Record<string, unknown>;
+    for (const key of Object.keys(record)) {
+      if (record[key] === DELETE) {
+        delete result[key];
+      } else {
+        result[key] = this.deepMerge(result[key], record[key]);
+      }
+    }
+    return result as T;
   }
 
-  private commit(state: S): Hash {
-    try {
-      this.validateState(state);
+  private freeze(state: S): S {
+    return this.strict ? deepFreeze(state) : state;
+  }
 
-      const hash = this.hash(state);
+  private hash(state: S): Hash {
+    return this.hasher.hash(state);
+  }
 
-      this.versions.set(hash, state);
+  private address(state: S, hash: Hash = this.hash(state)): Hash {
+    let candidate = hash;
+    for (let n = 1; this.versions.has(candidate); n++) {
+      const stored = this.versions.get(candidate);
+      if (stored === state || isEqual(stored, state)) return candidate;
+      candidate = `${hash}~${n}`;
+    }
+    return candidate;
+  }
 
-      if (this.maxHistory > 0) {
-        this.prune();
-      } else {
-        for (const k of this.versions.keys()) {
-          if (k !== hash) this.versions.delete(k);
-        }
+  private commit(state: S, info: CommitInfo = {}): Hash {
+    try {
+      const contentHash = this.hash(state);
+      const hash = this.address(state, contentHash);
+      if (hash !== contentHash && !this.versions.has(hash)) {
+        this.handleError(
+          new Error(`Hash collision detected, stored as ${hash}`),
+          "hash",
+        );
       }
 
-      this.rootHash = hash;
-      this.notify(hash);
+      const prevHash = this.rootHash;
+      this.versions.set(hash, this.freeze(state));
+      const commit = this.record(hash, info);
+      this.prune();
+
+      this.notify(commit);
+      this.emit({ type: "commit", hash, prevHash, commit });
       return hash;
     } catch (error) {
       this.handleError(error as Error, "commit");
@@ -142,136 +405,1012 @@ export class Shoy<S> {
     }
   }
 
-  apply(patch: Patch<S>): Hash {
+  private record(hash: Hash, info: CommitInfo = {}): Commit {
+    const parent = this.headId || null;
+    const timestamp = Date.now();
+    let id: string;
+    do {
+      id = defaultHasher(`${hash}|${parent}|${timestamp}|${this.sequence++}`);
+    } while (this.commits.has(id));
+
+    const commit: Commit = {
+      id,
+      hash,
+      parent,
+      branch: this.headBranch,
+      timestamp,
+      ...info,
+    };
+
+    this.commits.set(commit.id, commit);
+    this.ordinals.set(commit.id, this.commitCount++);
+    this.headId = commit.id;
+    if (this.headBranch !== null) this.refs.set(this.headBranch, commit.id);
+    this.timeline.push(commit.id);
+    this.timeline.trim(this.maxHistory + 1);
+    this.rootHash = hash;
+    return commit;
+  }
+
+  private moveHead(id: string, type: Exclude<ChangeType, "commit">): void {
+    const commit = this.commits.get(id)!;
+    const prevHash = this.rootHash;
+    this.headId = id;
+    if (this.headBranch !== null) this.refs.set(this.headBranch, id);
+    this.rootHash = commit.hash;
+    this.notify(commit);
+    this.emit({ type, hash: commit.hash, prevHash, commit });
+  }
+
+  private get timeline(): Timeline {
+    let timeline = this.timelines.get(this.headBranch);
+    if (!timeline) {
+      timeline = new Timeline();
+      this.timelines.set(this.headBranch, timeline);
+    }
+    return timeline;
+  }
+
+  private resolve(ref: string): Commit | undefined {
+    const branchTip = this.refs.get(ref);
+    if (branchTip !== undefined) return this.commits.get(branchTip);
+    if (this.commits.has(ref)) return this.commits.get(ref);
+
+    let found: Commit | undefined;
+    for (const commit of this.commits.values()) {
+      if (commit.hash === ref) found = commit;
+    }
+    return found;
+  }
+
+  apply(patch: Patch<S>, info: CommitInfo = {}): Hash {
+    this.assertActive("apply");
+    if (this.phase === "initializing") {
+      return this.enqueue(() => this.apply(patch, info));
+    }
     try {
       const prev = this.current;
       const patchResult = typeof patch === "function" ? patch(prev) : patch;
 
       if (this.isPrimitive(prev) && this.isPrimitive(patchResult)) {
-        if (Object.is(prev, patchResult)) {
-          return this.rootHash;
-        }
-        return this.commit(patchResult as S);
+        return this.advance(patchResult as S, info);
       }
 
-      const next = this.deepMerge(prev, patchResult as Partial<S>);
+      const next = this.deepMerge(prev, patchResult);
+      return this.advance(next, info);
+    } catch (error) {
+      this.handleError(error as Error, "apply");
+      throw error;
+    }
+  }
+
+  applyJsonPatch(ops: readonly Operation[], info: CommitInfo = {}): Hash {
+    this.assertActive("applyJsonPatch");
+    if (this.phase === "initializing") {
+      return this.enqueue(() => this.applyJsonPatch(ops, info));
+    }
+    try {
+      return this.advance(applyOperations(this.current, ops), info);
+    } catch (error) {
+      this.handleError(error as Error, "applyJsonPatch");
+      throw error;
+    }
+  }
 
-      const nextHash = this.hash(next);
-      if (nextHash === this.rootHash) {
-        return this.rootHash;
+  diff(fromHash: Hash, toHash: Hash = this.rootHash): Operation[] {
+    for (const hash of [fromHash, toHash]) {
+      if (!this.versions.has(hash)) {
+        const error = new Error(`Unknown version: ${hash}`);
+        this.handleError(error, "diff");
+        throw error;
       }
+    }
+    return diff(this.versions.get(fromHash), this.versions.get(toHash));
+  }
 
-      return this.commit(next);
+  set<P extends Path<S>>(
+    path: P,
+    value: PathValue<S, P>,
+    info: CommitInfo = {},
+  ): Hash {
+    this.assertActive("set");
+    if (this.phase === "initializing") {
+      return this.enqueue(() => this.set(path, value, info));
+    }
+    try {
+      return this.advance(
+        setIn(this.current, splitPath(path), value) as S,
+        info,
+      );
     } catch (error) {
-      this.handleError(error as Error, "apply");
+      this.handleError(error as Error, "set");
+      throw error;
+    }
+  }
+
+  update<P extends Path<S>>(
+    path: P,
+    fn: (prev: PathValue<S, P>) => PathValue<S, P>,
+    info: CommitInfo = {},
+  ): Hash {
+    this.assertActive("update");
+    if (this.phase === "initializing") {
+      return this.enqueue(() => this.update(path, fn, info));
+    }
+    try {
+      const tokens = splitPath(path);
+      const prev = getIn(this.current, tokens) as PathValue<S, P>;
+      return this.advance(setIn(this.current, tokens, fn(prev)) as S, info);
+    } catch (error) {
+      this.handleError(error as Error, "update");
       throw error;
     }
   }
 
+  delete<P extends DeletablePath<S>>(path: P, info: CommitInfo = {}): Hash {
+    this.assertActive("delete");
+    if (this.phase === "initializing") {
+      return this.enqueue(() => this.delete(path, info));
+    }
+    try {
+      return this.advance(deleteIn(this.current, splitPath(path)) as S, info);
+    } catch (error) {
+      this.handleError(error as Error, "delete");
+      throw error;
+    }
+  }
+
+  private advance(next: S, info: CommitInfo): Hash {
+    if (this.draft) {
+      this.draft.state = next;
+      this.draft.info = { ...this.draft.info, ...info };
+      return this.hash(next);
+    }
+
+    const prev = this.current;
+    for (const { before } of this.interceptors) {
+      const processed = before?.(prev, next, info);
+      if (processed !== undefined) next = processed;
+    }
+
+    const nextHash = this.address(next);
+    const hash =
+      nextHash === this.rootHash ? this.rootHash : this.commit(next, info);
+    for (const { after } of this.interceptors) {
+      after?.(this.current, hash, info);
+    }
+    return hash;
+  }
+
+  transaction<R>(fn: () => R, info: CommitInfo = {}): R {
+    this.assertActive("run a transaction");
+    if (this.phase !== "ready") {
+      throw new Error("Cannot run a transaction before the store is ready");
+    }
+    const outer = this.draft;
+    this.draft = outer ? { ...outer } : { state: this.current, info: {} };
+    try {
+      const result = fn();
+      const draft = this.draft;
+      this.draft = outer;
+      if (outer) {
+        outer.state = draft.state;
+        outer.info = { ...draft.info, ...info };
+      } else {
+        this.advance(draft.state, { ...draft.info, ...info });
+      }
+      return result;
+    } catch (error) {
+      this.draft = outer;
+      if (!outer) this.handleError(error as Error, "transaction");
+      throw error;
+    }
+  }
+
+  async action<R>(
+    fn: (ctx: ActionContext<S>) => Promise<R>,
+    options: ActionOptions = {},
+  ): Promise<R> {
+    this.assertActive("run an action");
+    const name = options.name ?? (fn.name || "action");
+    if (options.cancelPrevious) this.cancel(name);
+
+    const controller = new AbortController();
+    const { signal } = controller;
+    const abort = () => controller.abort(options.signal?.reason);
+    if (options.signal?.aborted) abort();
+    options.signal?.addEventListener("abort", abort);
+
+    const running = this.running.get(name) ?? new Set<AbortController>();
+    running.add(controller);
+    this.running.set(name, running);
+    this.actionErrors.delete(name);
+    this.notifyActions();
+
+    const store = this;
+    const ctx: ActionContext<S> = {
+      signal,
+      get current() {
+        return store.current;
+      },
+      apply(patch, info = {}) {
+        if (signal.aborted) throw signal.reason;
+        return store.apply(patch, { action: name, ...info });
+      },
+    };
+
+    try {
+      if (signal.aborted) throw signal.reason;
+      return await fn(ctx);
+    } catch (error) {
+      if (!signal.aborted) {
+        this.actionErrors.set(name, error as Error);
+        this.handleError(error as Error, "action");
+      }
+      throw error;
+    } finally {
+      options.signal?.removeEventListener("abort", abort);
+      running.delete(controller);
+      if (running.size === 0) this.running.delete(name);
+      this.notifyActions();
+    }
+  }
+
+  cancel(name?: string): void {
+    for (const [key, running] of this.running) {
+      if (name !== undefined && key !== name) continue;
+      running.forEach((controller) => controller.abort());
+    }
+  }
+
+  actionStatus(name?: string): ActionStatus {
+    if (name === undefined) {
+      const [error = null] = this.actionErrors.values();
+      return { pending: this.running.size > 0, error };
+    }
+    return {
+      pending: this.running.has(name),
+      error: this.actionErrors.get(name) ?? null,
+    };
+  }
+
+  subscribeActions(cb: () => void): () => void {
+    this.actionListeners.add(cb);
+    return () => this.actionListeners.delete(cb);
+  }
+
+  private notifyActions(): void {
+    this.actionListeners.forEach((cb) => cb());
+  }
+
+  get inTransaction(): boolean {
+    return this.draft !== null;
+  }
+
+  private assertActive(operation: string): void {
+    if (this.phase === "disposed") {
+      throw new Error(`Cannot ${operation} after the store was disposed`);
+    }
+  }
+
+  private assertIdle(operation: string): void {
+    if (this.draft) {
+      throw new Error(`Cannot ${operation} during a transaction`);
+    }
+  }
+
   get current(): S {
+    if (this.draft) return this.draft.state;
+    if (this.phase === "initializing" || this.phase === "failed") {
+      throw new Error(
+        this.phase === "initializing"
+          ? "Store is still initializing"
+          : "Store failed to initialize",
+      );
+    }
     const state = this.versions.get(this.rootHash);
-    if (!state) {
+    if (!this.versions.has(this.rootHash)) {
       const error = new Error("Shoy corrupted – rootHash missing");
       this.handleError(error, "current");
       throw error;
     }
-    return state;
+    return state as S;
   }
 
   get currentHash(): Hash {
-    return this.rootHash;
+    return this.draft ? this.hash(this.draft.state) : this.rootHash;
   }
 
-  subscribe(cb: (hash: Hash) => void): () => void {
-    this.listeners.add(cb);
-    return () => this.listeners.delete(cb);
+  subscribe(cb: Listener): () => void;
+  subscribe<P extends Path<S>>(
+    cb: ChangeListener<PathValue<S, P>>,
+    options: PathSubscribeOptions<S, P>,
+  ): () => void;
+  subscribe<R>(
+    selector: (state: S) => R,
+    cb: ChangeListener<R>,
+    options?: SubscribeOptions<R>,
+  ): () => void;
+  subscribe(
+    first: (...args: never[]) => unknown,
+    second?: ChangeListener<never> | { path: string },
+    third?: SubscribeOptions<unknown>,
+  ): () => void {
+    let listener = first as Listener;
+    if (typeof second === "function") {
+      listener = this.watch(
+        first as (state: S) => unknown,
+        second as ChangeListener<unknown>,
+        third,
+      );
+    } else if (second) {
+      const tokens = splitPath(second.path);
+      listener = this.watch(
+        (state) => getIn(state, tokens),
+        first as ChangeListener<unknown>,
+        second as SubscribeOptions<unknown>,
+      );
+    }
+
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
   }
-  private notify(hash: Hash): void {
-    this.listeners.forEach((cb) => cb(hash));
+
+  private watch<R>(
+    selector: (state: S) => R,
+    cb: ChangeListener<R>,
+    { equals = Object.is }: SubscribeOptions<R> = {},
+  ): Listener {
+    let primed = this.phase === "ready";
+    let prev = primed ? selector(this.current) : (undefined as R);
+    let prevHash = this.rootHash;
+    return (hash, commit) => {
+      const next = selector(this.versions.get(hash) as S);
+      const meta = { hash, prevHash, commit };
+      prevHash = hash;
+      if (primed && equals(prev, next)) return;
+      primed = true;
+
+      const old = prev;
+      prev = next;
+      cb(next, old, meta);
+    };
+  }
+  private notify(commit: Commit): void {
+    this.listeners.forEach((cb) => cb(commit.hash, commit));
+  }
+
+  on<K extends keyof StoreEvents>(
+    type: K,
+    handler: (event: StoreEvents[K]) => void,
+  ): () => void {
+    let handlers = this.handlers.get(type);
+    if (!handlers) {
+      handlers = new Set();
+      this.handlers.set(type, handlers);
+    }
+    handlers.add(handler);
+    return () => handlers.delete(handler);
+  }
+
+  intercept(interceptor: Interceptor<S>): () => void {
+    this.interceptors = [...this.interceptors, interceptor];
+    return () => {
+      const index = this.interceptors.indexOf(interceptor);
+      if (index === -1) return;
+      this.interceptors = this.interceptors.filter((_, i) => i !== index);
+    };
+  }
+
+  private emit<K extends keyof StoreEvents>(event: StoreEvents[K]): void {
+    const handlers = this.handlers.get(event.type as K);
+    handlers?.forEach((handler) =>
+      (handler as (event: StoreEvents[K]) => void)(event),
+    );
   }
 
   revert(hash: Hash): boolean {
-    if (this.maxHistory === 0 || !this.versions.has(hash)) return false;
-    this.rootHash = hash;
-    this.notify(hash);
+    this.assertActive("revert");
+    this.assertIdle("revert");
+    if (this.maxHistory === 0) return false;
+
+    const entry = this.timeline.ids
+      .filter((id) => id === hash || this.commits.get(id)!.hash === hash)
+      .pop();
+    if (entry !== undefined) {
+      this.timeline.jump(entry);
+      this.moveHead(entry, "revert");
+      return true;
+    }
+
+    const target = this.resolve(hash);
+    if (!target || (target.hash !== hash && target.id !== hash)) return false;
+
+    this.timeline.push(target.id);
+    this.timeline.trim(this.maxHistory + 1);
+    this.moveHead(target.id, "revert");
+    this.prune();
     return true;
   }
 
   undo(): boolean {
+    this.assertActive("undo");
+    this.assertIdle("undo");
     if (this.maxHistory === 0) return false;
-    const currentIdx = this.history.indexOf(this.rootHash);
-    if (currentIdx <= 0) return false;
+    const id = this.timeline.back();
+    if (id === undefined) return false;
 
-    const prevHash = this.history[currentIdx - 1];
-    this.rootHash = prevHash;
-    this.notify(prevHash);
+    this.moveHead(id, "undo");
     return true;
   }
 
   redo(): boolean {
+    this.assertActive("redo");
+    this.assertIdle("redo");
     if (this.maxHistory === 0) return false;
-    const currentIdx = this.history.indexOf(this.rootHash);
-    if (currentIdx >= this.history.length - 1) return false;
+    const id = this.timeline.forward();
+    if (id === undefined) return false;
 
-    const nextHash = this.history[currentIdx + 1];
-    this.rootHash = nextHash;
-    this.notify(nextHash);
+    this.moveHead(id, "redo");
     return true;
   }
 
+  get canUndo(): boolean {
+    return this.maxHistory > 0 && this.timeline.canUndo;
+  }
+
+  get canRedo(): boolean {
+    return this.maxHistory > 0 && this.timeline.canRedo;
+  }
+
+  branch(name: string): boolean {
+    this.assertActive("branch");
+    if (this.refs.has(name)) return false;
+    this.refs.set(name, this.headId);
+    this.timelines.set(name, this.timeline.upToCursor());
+    return true;
+  }
+
+  checkout(ref: string): boolean {
+    this.assertActive("checkout");
+    this.assertIdle("checkout");
+    if (this.refs.has(ref)) {
+      this.headBranch = ref;
+      this.moveHead(this.refs.get(ref)!, "restore");
+      return true;
+    }
+
+    const target = this.resolve(ref);
+    if (!target) return false;
+
+    this.headBranch = null;
+    this.timelines.set(
+      null,
+      new Timeline(
+        this.log(target.id)
+          .map((commit) => commit.id)
+          .reverse(),
+      ),
+    );
+    this.moveHead(target.id, "restore");
+    return true;
+  }
+
+  log(ref?: string): Commit[] {
+    const start =
+      ref === undefined ? this.commits.get(this.headId) : this.resolve(ref);
+    const commits: Commit[] = [];
+    for (let commit = start; commit; ) {
+      commits.push(commit);
+      commit = commit.parent ? this.commits.get(commit.parent) : undefined;
+    }
+    return commits;
+  }
+
+  at(timestamp: number): S | undefined {
+    const commit = this.log().find((c) => c.timestamp <= timestamp);
+    return commit ? this.versions.get(commit.hash) : undefined;
+  }
+
+  get head(): Commit {
+    return this.commits.get(this.headId)!;
+  }
+
+  get branches(): string[] {
+    return Array.from(this.refs.keys());
+  }
+
+  get currentBranch(): string | null {
+    return this.headBranch;
+  }
+
   get history(): Hash[] {
-    return this.maxHistory > 0 ? Array.from(this.versions.keys()) : [];
+    return this.maxHistory > 0
+      ? this.timeline.ids.map((id) => this.commits.get(id)!.hash)
+      : [];
   }
 
   private prune(): void {
-    if (this.maxHistory <= 0) return;
-    const keys = Array.from(this.versions.keys());
+    this.applyRetention();
+    this.collect();
 
-    if (keys.length > this.maxHistory + 1) {
-      const toRemove = keys.slice(0, keys.length - this.maxHistory - 1);
-      for (const k of toRemove) this.versions.delete(k);
+    const { maxBytes } = this.retention;
+    while (maxBytes !== undefined && this.memory.bytes > maxBytes) {
+      let oldest: { timeline: Timeline; id: string } | undefined;
+      for (const timeline of this.timelines.values()) {
+        const id = timeline.ids.find(
+          (id, index) => index !== timeline.position && !this.pinned.has(id),
+        );
+        if (
+          id !== undefined &&
+          (!oldest ||
+            this.commits.get(id)!.timestamp <
+              this.commits.get(oldest.id)!.timestamp)
+        ) {
+          oldest = { timeline, id };
+        }
+      }
+      if (!oldest) break;
+
+      const dropped = oldest.id;
+      let done = false;
+      oldest.timeline.drop((id) => {
+        if (done || id !== dropped) return false;
+        return (done = true);
+      });
+      this.collect();
     }
   }
 
-  private handleError(error: Error, context: string): void {
-    if (this.onError) {
-      this.onError(error, context);
-    } else {
-      console.error(`Shoy Error in ${context}:`, error);
+  private applyRetention(): void {
+    const { maxAge, keepEvery } = this.retention;
+    const cutoff = maxAge === undefined ? undefined : Date.now() - maxAge;
+
+    for (const timeline of this.timelines.values()) {
+      const newest = timeline.ids.length - 1;
+      timeline.drop((id, index) => {
+        if (this.pinned.has(id)) return false;
+        if (cutoff !== undefined && this.commits.get(id)!.timestamp < cutoff) {
+          return true;
+        }
+        return (
+          keepEvery !== undefined &&
+          newest - index >= keepEvery.after &&
+          this.ordinals.get(id)! % keepEvery.every !== 0
+        );
+      });
     }
   }
 
-  private validateState(state: S): void {
-    if (typeof state === "object" && state !== null) {
-      this.checkCircularReference(state, new Set());
+  private collect(): void {
+    const keep = new Set<string>([
+      this.headId,
+      ...this.refs.values(),
+      ...this.pinned,
+    ]);
+    for (const timeline of this.timelines.values()) {
+      for (const id of timeline.ids) keep.add(id);
     }
+
+    for (const id of this.commits.keys()) {
+      if (!keep.has(id)) {
+        this.commits.delete(id);
+        this.ordinals.delete(id);
+      }
+    }
+
+    const retained = new Set<Hash>();
+    for (const commit of this.commits.values()) retained.add(commit.hash);
+    for (const hash of Array.from(this.versions.keys())) {
+      if (!retained.has(hash)) this.versions.delete(hash);
+    }
+  }
+
+  pin(ref: string): boolean {
+    const commit = this.resolve(ref);
+    if (!commit) return false;
+    this.pinned.add(commit.id);
+    return true;
+  }
+
+  unpin(ref: string): boolean {
+    const commit = this.resolve(ref);
+    if (!commit || !this.pinned.delete(commit.id)) return false;
+    this.prune();
+    return true;
+  }
+
+  get pins(): Commit[] {
+    return Array.from(this.pinned, (id) => this.commits.get(id)!);
+  }
+
+  stats(): HistoryStats {
+    return {
+      versions: this.versions.size,
+      commits: this.commits.size,
+      history: this.maxHistory > 0 ? this.timeline.ids.length : 0,
+      pinned: this.pinned.size,
+      bytes: this.memory.bytes,
+    };
   }
 
-  private checkCircularReference(obj: object, visited: Set<object>): void {
-    if (visited.has(obj)) {
-      throw new Error("Circular reference detected in state object");
+  slice<P extends Path<S>>(path: P): Slice<PathValue<S, P>> {
+    let slice = this.slices.get(path);
+    if (!slice) {
+      slice = new Slice(
+        this as unknown as Shoy<unknown>,
+        splitPath(path),
+        (value) => this.hasher.hash(value),
+        this.maxHistory,
+      );
+      this.slices.set(path, slice);
     }
+    return slice as Slice<PathValue<S, P>>;
+  }
 
-    visited.add(obj);
+  static create<S>(init: () => S | Promise<S>, options: Options = {}): Shoy<S> {
+    const store = new Shoy<S>(undefined as S, options);
+    store.reset();
+    store.phase = "initializing";
 
-    if (Array.isArray(obj)) {
-      for (const item of obj) {
-        if (this.isObject(item)) {
-          this.checkCircularReference(item, new Set(visited));
-        }
+    let result: S | Promise<S>;
+    try {
+      result = init();
+    } catch (error) {
+      store.fail(error as Error);
+      return store;
+    }
+    if (!(result instanceof Promise)) {
+      store.initialize(result);
+      return store;
+    }
+
+    store.readiness = result.then(
+      (state) => {
+        store.initialize(state);
+        return store;
+      },
+      (error: Error) => {
+        store.fail(error);
+        throw error;
+      },
+    );
+    store.readiness.catch(() => {});
+    return store;
+  }
+
+  get status(): StoreStatus {
+    return this.phase;
+  }
+
+  get ready(): Promise<Shoy<S>> {
+    return this.readiness;
+  }
+
+  private enqueue(run: () => void): Hash {
+    this.queued.push(() => {
+      try {
+        run();
+      } catch {
+        return;
+      }
+    });
+    return "";
+  }
+
+  private initialize(state: S): void {
+    if (this.phase !== "initializing") return;
+    let hash: Hash;
+    try {
+      hash = this.address(state);
+      this.versions.set(hash, this.freeze(state));
+    } catch (error) {
+      this.fail(error as Error);
+      return;
+    }
+
+    const commit = this.record(hash);
+    this.phase = "ready";
+    this.notify(commit);
+    this.emit({ type: "restore", hash: commit.hash, prevHash: "", commit });
+
+    const queued = this.queued;
+    this.queued = [];
+    queued.forEach((run) => run());
+  }
+
+  dispose(): void {
+    if (this.phase === "disposed") return;
+    this.cancel();
+    this.emit({ type: "dispose" });
+
+    const head = this.commits.get(this.headId);
+    const state = head && this.versions.get(head.hash);
+    this.phase = "disposed";
+    this.queued = [];
+    this.draft = null;
+    this.reset();
+    if (head) {
+      this.versions.set(head.hash, state as S);
+      this.commits.set(head.id, head);
+      this.headId = head.id;
+      this.headBranch = head.branch;
+      this.rootHash = head.hash;
+    }
+
+    this.listeners.clear();
+    this.interceptors = [];
+    this.handlers.clear();
+    this.actionListeners.clear();
+    this.actionErrors.clear();
+    this.running.clear();
+    this.slices.clear();
+  }
+
+  private fail(error: Error): void {
+    this.phase = "failed";
+    this.queued = [];
+    this.readiness = Promise.reject(error);
+    this.readiness.catch(() => {});
+    this.handleError(error, "initialize");
+  }
+
+  exportRepository(options?: { format?: "json" }): string;
+  exportRepository(options: { format: "binary" }): Uint8Array;
+  exportRepository({ format = "json" }: { format?: RepositoryFormat } = {}):
+    | string
+    | Uint8Array {
+    const bundle: RepositoryBundle = {
+      format: REPOSITORY_FORMAT,
+      version: REPOSITORY_VERSION,
+      head: this.headId,
+      branch: this.headBranch,
+      refs: Array.from(this.refs),
+      timelines: Array.from(this.timelines, ([branch, timeline]) => ({
+        branch,
+        ids: [...timeline.ids],
+        position: timeline.position,
+      })),
+      commits: Array.from(this.commits.values()),
+      versions: Array.from(this.versions),
+      pinned: Array.from(this.pinned),
+    };
+    return encodeRepository(bundle, format);
+  }
+
+  static importRepository<S>(
+    data: string | Uint8Array,
+    options: Options = {},
+  ): Shoy<S> {
+    return Shoy.openRepository<S>(data, options);
+  }
+
+  private static openRepository<S>(
+    data: string | Uint8Array,
+    options: Options,
+    mismatches?: Error[],
+  ): Shoy<S> {
+    const bundle = decodeRepository(data);
+    const hasher = new MerkleHasher(options.hasher ?? defaultHasher);
+    const states = new Map(bundle.versions);
+    for (const [hash, state] of states) {
+      const actual = hasher.hash(state);
+      if (actual !== hash.split("~")[0]) {
+        const error = new Error(
+          `Version ${hash} does not match its content (${actual})`,
+        );
+        if (!mismatches) throw error;
+        mismatches.push(error);
       }
+    }
+
+    const commits = new Map(
+      bundle.commits.map((commit) => [commit.id, commit]),
+    );
+    for (const commit of commits.values()) {
+      if (!states.has(commit.hash)) {
+        throw new Error(`Commit ${commit.id} points to a missing version`);
+      }
+    }
+    const ids = [
+      bundle.head,
+      ...bundle.refs.map(([, id]) => id),
+      ...bundle.timelines.flatMap((timeline) => timeline.ids),
+      ...bundle.pinned,
+    ];
+    const unknown = ids.find((id) => !commits.has(id));
+    if (unknown !== undefined) {
+      throw new Error(`Unknown commit in repository: ${unknown}`);
+    }
+
+    const head = commits.get(bundle.head)!;
+    const maxHistory =
+      options.maxHistory ??
+      Math.max(0, ...bundle.timelines.map(({ ids }) => ids.length - 1));
+    const store = new Shoy<S>(states.get(head.hash) as S, {
+      ...options,
+      maxHistory,
+    });
+    store.load(bundle, states as Map<Hash, S>);
+    return store;
+  }
+
+  private reset(): void {
+    this.versions.clear();
+    this.commits.clear();
+    this.ordinals.clear();
+    this.refs.clear();
+    this.timelines.clear();
+    this.pinned.clear();
+    this.commitCount = 0;
+    this.headId = "";
+    this.headBranch = "main";
+    this.rootHash = "";
+  }
+
+  private load(bundle: RepositoryBundle, states: Map<Hash, S>): void {
+    this.reset();
+
+    const head = bundle.commits.find((commit) => commit.id === bundle.head)!;
+    for (const [hash, state] of states) {
+      if (hash !== head.hash) this.versions.set(hash, this.freeze(state));
+    }
+    this.versions.set(head.hash, this.freeze(states.get(head.hash)!));
+
+    for (const commit of bundle.commits) {
+      this.commits.set(commit.id, commit);
+      this.ordinals.set(commit.id, this.commitCount++);
+    }
+    for (const [name, id] of bundle.refs) this.refs.set(name, id);
+    for (const { branch, ids, position } of bundle.timelines) {
+      const cursor = Math.min(Math.max(position, 0), ids.length - 1);
+      const timeline = new Timeline(ids, cursor);
+      timeline.trim(this.maxHistory + 1);
+      this.timelines.set(branch, timeline);
+    }
+    for (const id of bundle.pinned) this.pinned.add(id);
+
+    this.headId = head.id;
+    this.headBranch = bundle.branch;
+    this.rootHash = head.hash;
+    this.prune();
+  }
+
+  dehydrate(options: DehydrateOptions<S> = {}): string {
+    const state = this.current;
+    const entries = (options.paths ?? [""]).map((path) => {
+      const value = getIn(state, splitPath(path));
+      return { path, hash: this.hasher.hash(value), value };
+    });
+    return encodeHydration({
+      format: HYDRATION_FORMAT,
+      version: HYDRATION_VERSION,
+      hash: this.hasher.hash(state),
+      entries,
+      ...(options.history && { repository: this.exportRepository() }),
+    });
+  }
+
+  static hydrate<S>(payload: string, options: Options = {}): Shoy<S> {
+    const { entries, repository } = decodeHydration(payload);
+    const root = entries.find((entry) => entry.path === "");
+
+    const mismatches: Error[] = [];
+    let store: Shoy<S>;
+    if (repository !== undefined) {
+      store = Shoy.openRepository<S>(repository, options, mismatches);
+    } else if (root) {
+      store = new Shoy<S>(root.value as S, options);
     } else {
-      for (const value of Object.values(obj)) {
-        if (typeof value === "object" && value !== null) {
-          this.checkCircularReference(value, new Set(visited));
-        }
+      throw new Error(
+        "Cannot create a store from a partial payload, hydrate an existing store instead",
+      );
+    }
+
+    mismatches.forEach((error) => store.handleError(error, "hydrate"));
+    entries.forEach((entry) => store.checkHydrated(entry));
+    return store;
+  }
+
+  hydrate(payload: string, options: HydrateOptions<S> = {}): Hash {
+    this.assertActive("hydrate");
+    if (this.phase === "initializing") {
+      return this.enqueue(() => this.hydrate(payload, options));
+    }
+    try {
+      const { entries } = decodeHydration(payload);
+      let next = this.current;
+      for (const { path, value } of this.selectHydrated(entries, options)) {
+        next = setIn(next, splitPath(path), value) as S;
       }
+      return this.advance(next, { action: "hydrate" });
+    } catch (error) {
+      this.handleError(error as Error, "hydrate");
+      throw error;
+    }
+  }
+
+  private selectHydrated(
+    entries: DehydratedEntry[],
+    { paths }: HydrateOptions<S>,
+  ): { path: string; value: unknown }[] {
+    if (!paths) {
+      entries.forEach((entry) => this.checkHydrated(entry));
+      return entries;
+    }
+
+    const checked = new Set<DehydratedEntry>();
+    const selected: { path: string; value: unknown }[] = [];
+    for (const path of paths as string[]) {
+      const tokens = splitPath(path);
+      const source = entries.find((entry) => {
+        const prefix = splitPath(entry.path);
+        return prefix.every((token, i) => tokens[i] === token);
+      });
+      if (!source) {
+        this.handleError(
+          new Error(`Path "${path}" is not in the hydration payload`),
+          "hydrate",
+        );
+        continue;
+      }
+      if (!checked.has(source)) {
+        checked.add(source);
+        this.checkHydrated(source);
+      }
+      const rest = tokens.slice(splitPath(source.path).length);
+      selected.push({ path, value: getIn(source.value, rest) });
+    }
+    return selected;
+  }
+
+  private checkHydrated({ path, hash, value }: DehydratedEntry): void {
+    const actual = this.hasher.hash(value);
+    if (actual !== hash.split("~")[0]) {
+      this.handleError(
+        new Error(
+          `Hydrated state at "${path}" does not match its hash ${hash} (${actual})`,
+        ),
+        "hydrate",
+      );
+    }
+  }
+
+  verify(): VersionMismatch[] {
+    const hasher = new MerkleHasher(this.hashFn);
+    const mismatches: VersionMismatch[] = [];
+    for (const [hash, state] of this.versions) {
+      const actual = hasher.hash(state);
+      if (actual !== hash.split("~")[0]) {
+        mismatches.push({ hash, actual });
+        this.handleError(
+          new Error(`Version ${hash} was mutated after it was committed`),
+          "verify",
+        );
+      }
+    }
+    return mismatches;
+  }
+
+  private handleError(error: Error, context: string): void {
+    this.emit({ type: "error", error, context });
+    if (this.onError) {
+      this.onError(error, context);
+    } else if (!this.handlers.get("error")?.size) {
+      console.error(`Shoy Error in ${context}:`, error);
     }
   }
 }
 
-export { useSelector as useGet } from './utils/query';
+export {
+  useSelector as useGet,
+  useActionStatus,
+  useReady,
+} from "./utils/query";
 
-export function useApply<S>(store: Shoy<S>) {
-  return React.useCallback((patch: Patch<S>) => store.apply(patch), [store]);
+export function useApply<S>(store: StoreLike<S>) {
+  return React.useCallback(
+    (patch: Patch<S>, info?: CommitInfo) => store.apply(patch, info),
+    [store],
+  );
 }
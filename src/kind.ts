@@ -0,0 +1,29 @@
+export type Kind =
+  | "primitive"
+  | "array"
+  | "object"
+  | "map"
+  | "set"
+  | "date"
+  | "binary";
+
+export type Builtin =
+  | Map<unknown, unknown>
+  | Set<unknown>
+  | Date
+  | ArrayBufferView
+  | ((...args: never[]) => unknown);
+
+export function kindOf(value: unknown): Kind {
+  if (typeof value !== "object" || value === null) return "primitive";
+  if (Array.isArray(value)) return "array";
+  if (value instanceof Map) return "map";
+  if (value instanceof Set) return "set";
+  if (value instanceof Date) return "date";
+  if (ArrayBuffer.isView(value)) return "binary";
+  return "object";
+}
+
+export function bytesOf(view: ArrayBufferView): Uint8Array {
+  return new Uint8Array(view.buffer, view.byteOffset, view.byteLength);
+}
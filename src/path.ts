@@ -0,0 +1,144 @@
+import { kindOf, type Builtin } from "./kind";
+
+type Depth = [never, 0, 1, 2, 3, 4, 5, 6, 7];
+
+export type Path<S, D extends number = 8> = [D] extends [never]
+  ? never
+  : S extends Builtin
+    ? never
+    : S extends readonly (infer E)[]
+      ? `${number}` | `${number}.${Path<E, Depth[D]>}`
+      : S extends object
+        ? {
+            [K in keyof S & string]: K | `${K}.${Path<S[K], Depth[D]>}`;
+          }[keyof S & string]
+        : never;
+
+export type DeletablePath<S, D extends number = 8> = [D] extends [never]
+  ? never
+  : S extends Builtin
+    ? never
+    : S extends readonly (infer E)[]
+      ? `${number}` | `${number}.${DeletablePath<E, Depth[D]>}`
+      : S extends object
+        ? {
+            [K in keyof S & string]:
+              | (undefined extends S[K] ? K : {} extends Pick<S, K> ? K : never)
+              | `${K}.${DeletablePath<S[K], Depth[D]>}`;
+          }[keyof S & string]
+        : never;
+
+export type PathValue<S, P extends string> = S extends readonly (infer E)[]
+  ? P extends `${number}.${infer Rest}`
+    ? PathValue<E, Rest>
+    : P extends `${number}`
+      ? E
+      : never
+  : P extends `${infer K}.${infer Rest}`
+    ? K extends keyof S
+      ? PathValue<NonNullable<S[K]>, Rest>
+      : never
+    : P extends keyof S
+      ? S[P]
+      : never;
+
+export function splitPath(path: string): string[] {
+  return path === "" ? [] : path.split(".");
+}
+
+function child(container: unknown, token: string): unknown {
+  switch (kindOf(container)) {
+    case "map":
+      return (container as Map<unknown, unknown>).get(token);
+    case "array":
+    case "object":
+      return (container as Record<string, unknown>)[token];
+    default:
+      return undefined;
+  }
+}
+
+function has(container: unknown, token: string): boolean {
+  switch (kindOf(container)) {
+    case "map":
+      return (container as Map<unknown, unknown>).has(token);
+    case "array":
+    case "object":
+      return Object.prototype.hasOwnProperty.call(container, token);
+    default:
+      return false;
+  }
+}
+
+function withChild(container: unknown, token: string, value: unknown): unknown {
+  switch (kindOf(container)) {
+    case "map":
+      return new Map(container as Map<unknown, unknown>).set(token, value);
+    case "array": {
+      const copy = (container as unknown[]).slice();
+      copy[Number(token)] = value;
+      return copy;
+    }
+    case "object":
+      return { ...(container as object), [token]: value };
+    case "primitive":
+      if (container === undefined || container === null) {
+        return { [token]: value };
+      }
+  }
+  throw new Error(`Cannot set "${token}" on a ${kindOf(container)} value`);
+}
+
+function withoutChild(container: unknown, token: string): unknown {
+  switch (kindOf(container)) {
+    case "map": {
+      const copy = new Map(container as Map<unknown, unknown>);
+      copy.delete(token);
+      return copy;
+    }
+    case "array": {
+      const copy = (container as unknown[]).slice();
+      copy.splice(Number(token), 1);
+      return copy;
+    }
+    default: {
+      const copy = { ...(container as Record<string, unknown>) };
+      delete copy[token];
+      return copy;
+    }
+  }
+}
+
+export function getIn(value: unknown, tokens: readonly string[]): unknown {
+  let current = value;
+  for (const token of tokens) {
+    current = child(current, token);
+  }
+  return current;
+}
+
+export function setIn(
+  value: unknown,
+  tokens: readonly string[],
+  next: unknown,
+): unknown {
+  if (tokens.length === 0) return next;
+  const [token, ...rest] = tokens;
+  const current = child(value, token);
+  const updated = setIn(current, rest, next);
+  if (Object.is(current, updated) && has(value, token)) return value;
+  return withChild(value, token, updated);
+}
+
+export function deleteIn(value: unknown, tokens: readonly string[]): unknown {
+  if (tokens.length === 0) {
+    throw new Error("Cannot delete the root state");
+  }
+  const [token, ...rest] = tokens;
+  if (!has(value, token)) return value;
+  if (rest.length === 0) return withoutChild(value, token);
+
+  const current = child(value, token);
+  const updated = deleteIn(current, rest);
+  return Object.is(current, updated) ? value : withChild(value, token, updated);
+}
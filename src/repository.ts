@@ -0,0 +1,367 @@
+import type { Commit, Hash } from "./index";
+import { bytesOf, kindOf } from "./kind";
+import { serialize, deserialize } from "./utils/serializer";
+
+export const REPOSITORY_FORMAT = "shoy-repository";
+export const REPOSITORY_VERSION = 1;
+
+export interface RepositoryBundle {
+  format: typeof REPOSITORY_FORMAT;
+  version: typeof REPOSITORY_VERSION;
+  head: string;
+  branch: string | null;
+  refs: [string, string][];
+  timelines: { branch: string | null; ids: string[]; position: number }[];
+  commits: Commit[];
+  versions: [Hash, unknown][];
+  pinned: string[];
+}
+
+export type RepositoryFormat = "json" | "binary";
+
+const MAGIC = [0x53, 0x48, 0x4f, 0x59];
+
+const Tag = {
+  Undefined: 0,
+  Null: 1,
+  False: 2,
+  True: 3,
+  Integer: 4,
+  Float: 5,
+  String: 6,
+  StringRef: 7,
+  BigInt: 8,
+  Array: 9,
+  Object: 10,
+  Map: 11,
+  Set: 12,
+  Date: 13,
+  Binary: 14,
+  Ref: 15,
+} as const;
+
+type BinaryConstructor = new (buffer: ArrayBuffer) => ArrayBufferView;
+
+const binaryTypes: Record<string, BinaryConstructor> = {
+  Int8Array,
+  Uint8Array,
+  Uint8ClampedArray,
+  Int16Array,
+  Uint16Array,
+  Int32Array,
+  Uint32Array,
+  Float32Array,
+  Float64Array,
+  BigInt64Array,
+  BigUint64Array,
+  DataView,
+};
+
+class Writer {
+  private buffer = new Uint8Array(1024);
+  private length = 0;
+  private readonly objects = new Map<object, number>();
+  private readonly strings = new Map<string, number>();
+  private readonly encoder = new TextEncoder();
+  private readonly scratch = new DataView(new ArrayBuffer(8));
+
+  get bytes(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+
+  private reserve(size: number): void {
+    if (this.length + size <= this.buffer.length) return;
+    let capacity = this.buffer.length * 2;
+    while (capacity < this.length + size) capacity *= 2;
+    const next = new Uint8Array(capacity);
+    next.set(this.buffer.subarray(0, this.length));
+    this.buffer = next;
+  }
+
+  raw(bytes: ArrayLike<number>): void {
+    this.reserve(bytes.length);
+    this.buffer.set(bytes, this.length);
+    this.length += bytes.length;
+  }
+
+  byte(value: number): void {
+    this.reserve(1);
+    this.buffer[this.length++] = value;
+  }
+
+  uint(value: number): void {
+    while (value >= 0x80) {
+      this.byte(value % 0x80 | 0x80);
+      value = Math.floor(value / 0x80);
+    }
+    this.byte(value);
+  }
+
+  float(value: number): void {
+    this.scratch.setFloat64(0, value);
+    this.raw(new Uint8Array(this.scratch.buffer));
+  }
+
+  string(value: string): void {
+    const index = this.strings.get(value);
+    if (index !== undefined) {
+      this.byte(Tag.StringRef);
+      this.uint(index);
+      return;
+    }
+    this.strings.set(value, this.strings.size);
+    const bytes = this.encoder.encode(value);
+    this.byte(Tag.String);
+    this.uint(bytes.length);
+    this.raw(bytes);
+  }
+
+  value(value: unknown): void {
+    switch (typeof value) {
+      case "undefined":
+        return this.byte(Tag.Undefined);
+      case "boolean":
+        return this.byte(value ? Tag.True : Tag.False);
+      case "number":
+        if (Number.isSafeInteger(value) && !Object.is(value, -0)) {
+          this.byte(Tag.Integer);
+          return this.uint(value < 0 ? -2 * value - 1 : 2 * value);
+        }
+        this.byte(Tag.Float);
+        return this.float(value);
+      case "string":
+        return this.string(value);
+      case "bigint":
+        this.byte(Tag.BigInt);
+        return this.string(value.toString());
+    }
+    if (value === null) return this.byte(Tag.Null);
+    if (typeof value !== "object") {
+      throw new Error(`Cannot encode a ${typeof value} in a repository`);
+    }
+
+    const index = this.objects.get(value);
+    if (index !== undefined) {
+      this.byte(Tag.Ref);
+      return this.uint(index);
+    }
+    this.objects.set(value, this.objects.size);
+
+    switch (kindOf(value)) {
+      case "array":
+        this.byte(Tag.Array);
+        this.uint((value as unknown[]).length);
+        return (value as unknown[]).forEach((item) => this.value(item));
+      case "map":
+        this.byte(Tag.Map);
+        this.uint((value as Map<unknown, unknown>).size);
+        return (value as Map<unknown, unknown>).forEach((item, key) => {
+          this.value(key);
+          this.value(item);
+        });
+      case "set":
+        this.byte(Tag.Set);
+        this.uint((value as Set<unknown>).size);
+        return (value as Set<unknown>).forEach((item) => this.value(item));
+      case "date":
+        this.byte(Tag.Date);
+        return this.float((value as Date).getTime());
+      case "binary": {
+        const name = value.constructor.name;
+        if (!(name in binaryTypes)) {
+          throw new Error(`Unsupported binary type: ${name}`);
+        }
+        const bytes = bytesOf(value as ArrayBufferView);
+        this.byte(Tag.Binary);
+        this.string(name);
+        this.uint(bytes.length);
+        return this.raw(bytes);
+      }
+    }
+
+    const keys = Object.keys(value);
+    this.byte(Tag.Object);
+    this.uint(keys.length);
+    for (const key of keys) {
+      this.string(key);
+      this.value((value as Record<string, unknown>)[key]);
+    }
+  }
+}
+
+class Reader {
+  private offset = 0;
+  private readonly objects: unknown[] = [];
+  private readonly strings: string[] = [];
+  private readonly decoder = new TextDecoder();
+  private readonly view: DataView;
+
+  constructor(private readonly bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  get done(): boolean {
+    return this.offset === this.bytes.length;
+  }
+
+  byte(): number {
+    if (this.offset >= this.bytes.length) {
+      throw new Error("Unexpected end of repository data");
+    }
+    return this.bytes[this.offset++];
+  }
+
+  raw(length: number): Uint8Array {
+    if (this.offset + length > this.bytes.length) {
+      throw new Error("Unexpected end of repository data");
+    }
+    return this.bytes.subarray(this.offset, (this.offset += length));
+  }
+
+  uint(): number {
+    let value = 0;
+    let scale = 1;
+    for (;;) {
+      const byte = this.byte();
+      value += (byte & 0x7f) * scale;
+      if (byte < 0x80) return value;
+      scale *= 0x80;
+    }
+  }
+
+  float(): number {
+    this.raw(8);
+    return this.view.getFloat64(this.offset - 8);
+  }
+
+  string(): string {
+    const value = this.value();
+    if (typeof value !== "string") {
+      throw new Error("Invalid repository data: expected a string");
+    }
+    return value;
+  }
+
+  private ref<T>(list: T[], index: number): T {
+    if (index >= list.length) {
+      throw new Error(`Invalid repository data: unknown reference ${index}`);
+    }
+    return list[index];
+  }
+
+  value(): unknown {
+    const tag = this.byte();
+    switch (tag) {
+      case Tag.Undefined:
+        return undefined;
+      case Tag.Null:
+        return null;
+      case Tag.False:
+        return false;
+      case Tag.True:
+        return true;
+      case Tag.Integer: {
+        const n = this.uint();
+        return n % 2 ? -(n + 1) / 2 : n / 2;
+      }
+      case Tag.Float:
+        return this.float();
+      case Tag.String: {
+        const value = this.decoder.decode(this.raw(this.uint()));
+        this.strings.push(value);
+        return value;
+      }
+      case Tag.StringRef:
+        return this.ref(this.strings, this.uint());
+      case Tag.BigInt:
+        return BigInt(this.string());
+      case Tag.Ref:
+        return this.ref(this.objects, this.uint());
+      case Tag.Array: {
+        const array: unknown[] = [];
+        this.objects.push(array);
+        for (let i = this.uint(); i > 0; i--) array.push(this.value());
+        return array;
+      }
+      case Tag.Map: {
+        const map = new Map<unknown, unknown>();
+        this.objects.push(map);
+        for (let i = this.uint(); i > 0; i--)
+          map.set(this.value(), this.value());
+        return map;
+      }
+      case Tag.Set: {
+        const set = new Set<unknown>();
+        this.objects.push(set);
+        for (let i = this.uint(); i > 0; i--) set.add(this.value());
+        return set;
+      }
+      case Tag.Date: {
+        const index = this.objects.push(null) - 1;
+        return (this.objects[index] = new Date(this.float()));
+      }
+      case Tag.Binary: {
+        const index = this.objects.push(null) - 1;
+        const name = this.string();
+        if (!(name in binaryTypes)) {
+          throw new Error(`Unsupported binary type: ${name}`);
+        }
+        const bytes = this.raw(this.uint()).slice();
+        return (this.objects[index] = new binaryTypes[name](bytes.buffer));
+      }
+      case Tag.Object: {
+        const record: Record<string, unknown> = {};
+        this.objects.push(record);
+        for (let i = this.uint(); i > 0; i--) {
+          const key = this.string();
+          record[key] = this.value();
+        }
+        return record;
+      }
+      default:
+        throw new Error(`Invalid repository data: unknown tag ${tag}`);
+    }
+  }
+}
+
+export function encodeRepository(
+  bundle: RepositoryBundle,
+  format: RepositoryFormat,
+): string | Uint8Array {
+  if (format === "json") return serialize(bundle);
+
+  const writer = new Writer();
+  writer.raw(MAGIC);
+  writer.byte(REPOSITORY_VERSION);
+  writer.value(bundle);
+  return writer.bytes;
+}
+
+export function decodeRepository(data: string | Uint8Array): RepositoryBundle {
+  let bundle: unknown;
+  if (typeof data === "string") {
+    bundle = deserialize(data);
+  } else {
+    const reader = new Reader(data);
+    if (MAGIC.some((byte) => reader.byte() !== byte)) {
+      throw new Error("Invalid repository data: not a shoy repository");
+    }
+    const version = reader.byte();
+    if (version !== REPOSITORY_VERSION) {
+      throw new Error(`Unsupported repository version: ${version}`);
+    }
+    bundle = reader.value();
+    if (!reader.done) {
+      throw new Error("Invalid repository data: trailing bytes");
+    }
+  }
+
+  const { format, version } = (bundle ?? {}) as Partial<RepositoryBundle>;
+  if (format !== REPOSITORY_FORMAT) {
+    throw new Error("Invalid repository data: not a shoy repository");
+  }
+  if (version !== REPOSITORY_VERSION) {
+    throw new Error(`Unsupported repository version: ${version}`);
+  }
+  return bundle as RepositoryBundle;
+}
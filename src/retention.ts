@@ -0,0 +1,106 @@
+import { kindOf } from "./kind";
+
+export interface RetentionPolicy {
+  maxBytes?: number;
+  maxAge?: number;
+  keepEvery?: { after: number; every: number };
+}
+
+export interface HistoryStats {
+  versions: number;
+  commits: number;
+  history: number;
+  pinned: number;
+  bytes: number;
+}
+
+function primitiveSize(value: unknown): number {
+  switch (typeof value) {
+    case "string":
+      return 2 * value.length;
+    case "bigint":
+      return 8 + Math.ceil(value.toString(16).length / 2);
+    case "boolean":
+      return 4;
+    case "undefined":
+      return 0;
+    default:
+      return 8;
+  }
+}
+
+function children(obj: object): unknown[] {
+  switch (kindOf(obj)) {
+    case "array":
+      return obj as unknown[];
+    case "map":
+      return Array.from(obj as Map<unknown, unknown>).flat();
+    case "set":
+      return Array.from(obj as Set<unknown>);
+    case "object":
+      return Object.values(obj);
+    default:
+      return [];
+  }
+}
+
+function ownSize(obj: object): number {
+  let size = 16;
+  switch (kindOf(obj)) {
+    case "binary":
+      return size + (obj as ArrayBufferView).byteLength;
+    case "date":
+      return size + 8;
+    case "object":
+      for (const key of Object.keys(obj)) size += 8 + 2 * key.length;
+      break;
+  }
+  for (const child of children(obj)) {
+    size +=
+      typeof child === "object" && child !== null ? 8 : primitiveSize(child);
+  }
+  return size;
+}
+
+export class MemoryTracker {
+  private readonly refs = new Map<object, number>();
+  private total = 0;
+
+  get bytes(): number {
+    return this.total;
+  }
+
+  add(value: unknown): void {
+    if (typeof value !== "object" || value === null) {
+      this.total += primitiveSize(value);
+      return;
+    }
+    const count = this.refs.get(value) ?? 0;
+    this.refs.set(value, count + 1);
+    if (count > 0) return;
+
+    this.total += ownSize(value);
+    children(value).forEach((child) => {
+      if (typeof child === "object" && child !== null) this.add(child);
+    });
+  }
+
+  remove(value: unknown): void {
+    if (typeof value !== "object" || value === null) {
+      this.total -= primitiveSize(value);
+      return;
+    }
+    const count = this.refs.get(value);
+    if (count === undefined) return;
+    if (count > 1) {
+      this.refs.set(value, count - 1);
+      return;
+    }
+
+    this.refs.delete(value);
+    this.total -= ownSize(value);
+    children(value).forEach((child) => {
+      if (typeof child === "object" && child !== null) this.remove(child);
+    });
+  }
+}
@@ -0,0 +1,202 @@
+import type {
+  Shoy,
+  Hash,
+  Patch,
+  CommitInfo,
+  ChangeType,
+  StoreEvents,
+  Listener,
+  ChangeListener,
+  SubscribeOptions,
+  Interceptor,
+} from "./index";
+import { patchAt } from "./array";
+import { applyOperations, type Operation } from "./diff";
+import { kindOf } from "./kind";
+import { getIn, setIn, type Path, type PathValue } from "./path";
+
+const CHANGES: ChangeType[] = ["commit", "undo", "redo", "revert", "restore"];
+
+export class Slice<T> {
+  private past: T[] = [];
+  private future: T[] = [];
+  private restoring = false;
+  private lastHash: Hash;
+  private prevHash: Hash;
+
+  constructor(
+    private readonly parent: Shoy<unknown>,
+    private readonly tokens: readonly string[],
+    private readonly hashOf: (value: unknown) => Hash,
+    maxHistory: number,
+  ) {
+    this.lastHash = this.prevHash = this.currentHash;
+    parent.subscribe(() => {
+      this.prevHash = this.lastHash;
+      this.lastHash = this.currentHash;
+    });
+
+    if (maxHistory > 0) {
+      parent.subscribe(
+        (state) => getIn(state, tokens) as T,
+        (_next, prev) => {
+          if (this.restoring) return;
+          this.past.push(prev);
+          if (this.past.length > maxHistory) this.past.shift();
+          this.future = [];
+        },
+      );
+    }
+  }
+
+  get path(): string {
+    return this.tokens.join(".");
+  }
+
+  get current(): T {
+    return getIn(this.parent.current, this.tokens) as T;
+  }
+
+  get currentHash(): Hash {
+    return this.hashOf(this.current);
+  }
+
+  private lift(patch: unknown): unknown {
+    const state = this.parent.current;
+    let lifted = patch;
+    for (let i = this.tokens.length - 1; i >= 0; i--) {
+      const token = this.tokens[i];
+      const container = getIn(state, this.tokens.slice(0, i));
+      switch (kindOf(container)) {
+        case "array":
+          lifted = patchAt(Number(token), lifted);
+          break;
+        case "map":
+          lifted = new Map([[token, lifted]]);
+          break;
+        default:
+          lifted = { [token]: lifted };
+      }
+    }
+    return lifted;
+  }
+
+  apply(patch: Patch<T>, info: CommitInfo = {}): Hash {
+    const resolved =
+      typeof patch === "function"
+        ? (patch as (prev: T) => unknown)(this.current)
+        : patch;
+    this.parent.apply(this.lift(resolved) as Patch<unknown>, info);
+    return this.currentHash;
+  }
+
+  applyJsonPatch(ops: readonly Operation[], info: CommitInfo = {}): Hash {
+    const next = applyOperations(this.current, ops);
+    this.parent.set(this.path as never, next as never, info);
+    return this.currentHash;
+  }
+
+  readonly subscribe: Shoy<T>["subscribe"] = ((
+    first: (...args: never[]) => unknown,
+    second?:
+      | ChangeListener<never>
+      | ({ path: string } & SubscribeOptions<never>),
+    third?: SubscribeOptions<unknown>,
+  ) => {
+    const select = (state: unknown) => getIn(state, this.tokens) as T;
+    if (typeof second === "function") {
+      const selector = first as (state: T) => unknown;
+      return this.parent.subscribe(
+        (state) => selector(select(state)),
+        second as ChangeListener<unknown>,
+        third,
+      );
+    }
+    if (second) {
+      const path = [...this.tokens, second.path].filter(Boolean).join(".");
+      return this.parent.subscribe(first as ChangeListener<never>, {
+        ...second,
+        path: path as never,
+      });
+    }
+    const listener = first as Listener;
+    return this.parent.subscribe(select, (next, _prev, meta) =>
+      listener(this.hashOf(next), meta.commit),
+    );
+  }) as Shoy<T>["subscribe"];
+
+  on<K extends keyof StoreEvents>(
+    type: K,
+    handler: (event: StoreEvents[K]) => void,
+  ): () => void {
+    if (!CHANGES.includes(type as ChangeType)) {
+      return this.parent.on(type, handler);
+    }
+
+    return this.parent.on(type as ChangeType, (event) => {
+      if (this.lastHash === this.prevHash) return;
+      const change = { ...event, hash: this.lastHash, prevHash: this.prevHash };
+      handler(change as StoreEvents[K]);
+    });
+  }
+
+  intercept({ before, after }: Interceptor<T>): () => void {
+    const select = (state: unknown) => getIn(state, this.tokens) as T;
+    return this.parent.intercept({
+      before:
+        before &&
+        ((prev, next, info) => {
+          const processed = before(select(prev), select(next), info);
+          if (processed === undefined) return;
+          return setIn(next, this.tokens, processed);
+        }),
+      after:
+        after &&
+        ((state, _hash, info) => after(select(state), this.currentHash, info)),
+    });
+  }
+
+  slice<P extends Path<T>>(path: P): Slice<PathValue<T, P>> {
+    const joined = [...this.tokens, path].filter(Boolean).join(".");
+    return this.parent.slice(joined as never) as unknown as Slice<
+      PathValue<T, P>
+    >;
+  }
+
+  get canUndo(): boolean {
+    return this.past.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.future.length > 0;
+  }
+
+  undo(): boolean {
+    if (!this.canUndo) return false;
+    const prev = this.past.pop() as T;
+    this.future.push(this.current);
+    this.restore(prev, "undo");
+    return true;
+  }
+
+  redo(): boolean {
+    if (!this.canRedo) return false;
+    const next = this.future.pop() as T;
+    this.past.push(this.current);
+    this.restore(next, "redo");
+    return true;
+  }
+
+  private restore(value: T, action: string): void {
+    this.restoring = true;
+    try {
+      if (value === undefined) {
+        this.parent.delete(this.path as never, { action });
+      } else {
+        this.parent.set(this.path as never, value as never, { action });
+      }
+    } finally {
+      this.restoring = false;
+    }
+  }
+}
@@ -0,0 +1,76 @@
+export class Timeline {
+  private entries: string[];
+  private cursor: number;
+
+  constructor(entries: string[] = [], cursor = entries.length - 1) {
+    this.entries = entries;
+    this.cursor = cursor;
+  }
+
+  get ids(): readonly string[] {
+    return this.entries;
+  }
+
+  get position(): number {
+    return this.cursor;
+  }
+
+  get current(): string | undefined {
+    return this.entries[this.cursor];
+  }
+
+  get canUndo(): boolean {
+    return this.cursor > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.cursor < this.entries.length - 1;
+  }
+
+  push(id: string): void {
+    this.entries = this.entries.slice(0, this.cursor + 1);
+    this.entries.push(id);
+    this.cursor = this.entries.length - 1;
+  }
+
+  back(): string | undefined {
+    return this.canUndo ? this.entries[--this.cursor] : undefined;
+  }
+
+  forward(): string | undefined {
+    return this.canRedo ? this.entries[++this.cursor] : undefined;
+  }
+
+  jump(id: string): boolean {
+    const index = this.entries.lastIndexOf(id);
+    if (index < 0) return false;
+    this.cursor = index;
+    return true;
+  }
+
+  upToCursor(): Timeline {
+    return new Timeline(this.entries.slice(0, this.cursor + 1));
+  }
+
+  drop(predicate: (id: string, index: number) => boolean): void {
+    let cursor = this.cursor;
+    this.entries = this.entries.filter((id, index) => {
+      if (index === this.cursor || !predicate(id, index)) return true;
+      if (index < this.cursor) cursor--;
+      return false;
+    });
+    this.cursor = cursor;
+  }
+
+  trim(max: number): void {
+    let excess = this.entries.length - max;
+    if (excess <= 0) return;
+
+    const head = Math.min(excess, this.cursor);
+    this.entries.splice(0, head);
+    this.cursor -= head;
+    excess -= head;
+
+    if (excess > 0) this.entries.splice(this.entries.length - excess);
+  }
+}
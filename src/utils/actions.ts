@@ -0,0 +1,53 @@
+import type { StoreLike, Hash, Patch, CommitInfo } from '../index';
+
+export type ActionHandlers<S> = Record<
+  string,
+  (state: S, ...args: never[]) => Patch<S>
+>;
+
+export type BoundActions<S, H extends ActionHandlers<S>> = {
+  [K in keyof H]: H[K] extends (state: S, ...args: infer A) => Patch<S>
+    ? (...args: A) => Hash
+    : never;
+};
+
+function dispatch<S>(
+  store: StoreLike<S>,
+  name: string,
+  handler: (state: S, ...args: unknown[]) => Patch<S>,
+  args: unknown[]
+): Hash {
+  const patch = handler(store.current, ...args);
+  return store.apply(patch, { action: name, meta: { payload: args } });
+}
+
+export function defineActions<S, H extends ActionHandlers<S>>(
+  store: StoreLike<S>,
+  handlers: H
+): BoundActions<S, H> {
+  const bound: Record<string, (...args: unknown[]) => Hash> = {};
+  for (const name of Object.keys(handlers)) {
+    const handler = handlers[name] as (state: S, ...args: unknown[]) => Patch<S>;
+    bound[name] = (...args) => dispatch(store, name, handler, args);
+  }
+  return bound as BoundActions<S, H>;
+}
+
+export function replayActions<S, H extends ActionHandlers<S>>(
+  store: StoreLike<S>,
+  handlers: H,
+  log: readonly CommitInfo[]
+): Hash[] {
+  const hashes: Hash[] = [];
+  for (const entry of log) {
+    const { action, meta } = entry;
+    if (action === undefined || !Object.prototype.hasOwnProperty.call(handlers, action)) {
+      continue;
+    }
+    if (!Array.isArray(meta?.payload)) continue;
+
+    const handler = handlers[action] as (state: S, ...args: unknown[]) => Patch<S>;
+    hashes.push(dispatch(store, action, handler, meta.payload));
+  }
+  return hashes;
+}
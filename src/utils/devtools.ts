@@ -1,11 +1,14 @@
-import type { Shoy, Hash } from '../index';
-import type { DevToolsOptions } from './types';
+import type { StoreLike, Hash, CommitInfo } from '../index';
+import type { DevToolsOptions, ChangeType } from './types';
+import { clone } from './serializer';
+import { diff, type Operation } from '../diff';
 
-interface Snapshot {
+interface Snapshot extends CommitInfo {
+  type: ChangeType;
   hash: Hash;
   timestamp: number;
   state: unknown;
-  action?: string;
+  diff: Operation[];
 }
 
 class DevTools {
@@ -18,12 +21,22 @@ class DevTools {
     this.maxSnapshots = options.maxSnapshots ?? 100;
   }
 
-  record(hash: Hash, state: unknown, action?: string): void {
+  record(
+    hash: Hash,
+    state: unknown,
+    info: CommitInfo & { timestamp?: number; type?: ChangeType } = {}
+  ): void {
+    const { action, message, meta, timestamp = Date.now(), type = 'commit' } = info;
+    const previous = this.snapshots[this.snapshots.length - 1];
     const snapshot: Snapshot = {
+      type,
       hash,
-      timestamp: Date.now(),
-      state: this.deepClone(state),
+      timestamp,
+      state: clone(state),
+      diff: previous ? diff(previous.state, state) : [],
       action,
+      message,
+      meta,
     };
 
     this.snapshots.push(snapshot);
@@ -61,28 +74,19 @@ class DevTools {
   private notify(): void {
     this.listeners.forEach(cb => cb(this.snapshots));
   }
-
-  private deepClone(obj: unknown): unknown {
-    if (typeof obj !== 'object' || obj === null) return obj;
-    if (obj instanceof Date) return new Date(obj);
-    if (obj instanceof Array) return obj.map(item => this.deepClone(item));
-    
-    const cloned: Record<string, unknown> = {};
-    for (const key in obj) {
-      if (Object.prototype.hasOwnProperty.call(obj, key)) {
-        cloned[key] = this.deepClone((obj as Record<string, unknown>)[key]);
-      }
-    }
-    return cloned;
-  }
 }
 
-export function useDevTools<S>(store: Shoy<S>, options: DevToolsOptions = {}): DevTools {
+export function useDevTools<S>(store: StoreLike<S>, options: DevToolsOptions = {}): DevTools {
   const devtools = new DevTools(options);
 
-  devtools.unsubscribe = store.subscribe((hash) => {
-    devtools.record(hash, store.current);
-  });
+  const changes: ChangeType[] = ['commit', 'undo', 'redo', 'revert', 'restore'];
+  const unsubscribers = changes.map((type) =>
+    store.on(type, ({ hash, commit }) => {
+      devtools.record(hash, store.current, { ...commit, type });
+    })
+  );
+  unsubscribers.push(store.on('dispose', () => devtools.destroy()));
+  devtools.unsubscribe = () => unsubscribers.forEach((off) => off());
 
   return devtools;
 }
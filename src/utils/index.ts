@@ -20,10 +20,17 @@ export type { SyncOptions, ConflictResolver } from "./types";
 
 export {
   useSelector,
+  useActionStatus,
+  useReady,
   useComputed,
   useQuery,
   createSelector,
   createMemoizedSelector,
 } from "./query";
 
-export type { Hash } from "./types";
+export { defineActions, replayActions } from "./actions";
+export type { ActionHandlers, BoundActions } from "./actions";
+
+export { serialize, deserialize, clone } from "./serializer";
+
+export type { Hash, Commit, CommitInfo } from "./types";
@@ -1,11 +1,14 @@
-import type { Shoy, Patch } from '../index';
-import type { PersistenceOptions } from './types';
+import type { StoreLike, Patch } from '../index';
+import type { PersistenceOptions, ChangeType } from './types';
+import { serialize, deserialize } from './serializer';
+
+const CHANGES: ChangeType[] = ['commit', 'undo', 'redo', 'revert', 'restore'];
 
 export function usePersistence<S>(
-  store: Shoy<S>,
+  store: StoreLike<S>,
   options: PersistenceOptions
 ): () => void {
-  const { key, storage = localStorage, throttle = 300 } = options;
+  const { key, storage = localStorage, throttle = 300, events = CHANGES } = options;
   let saveTimer: ReturnType<typeof setTimeout> | null = null;
 
   const save = () => {
@@ -26,9 +29,9 @@ export function usePersistence<S>(
           }
           filtered[path] = value;
         }
-        storage.setItem(key, JSON.stringify(filtered));
+        storage.setItem(key, serialize(filtered));
       } else {
-        storage.setItem(key, JSON.stringify(state));
+        storage.setItem(key, serialize(state));
       }
     } catch (error) {
       console.error('Failed to save state:', error);
@@ -43,15 +46,21 @@ export function usePersistence<S>(
     }, throttle);
   };
 
-  const unsubscribe = store.subscribe(() => {
-    throttledSave();
-  });
+  const unsubscribers = events.map((type) => store.on(type, throttledSave));
+  const unsubscribe = () => {
+    unsubscribers.forEach((off) => off());
+    if (saveTimer) {
+      clearTimeout(saveTimer);
+      saveTimer = null;
+    }
+  };
+  unsubscribers.push(store.on('dispose', unsubscribe));
 
   const restore = () => {
     try {
       const saved = storage.getItem(key);
       if (saved) {
-        const state = JSON.parse(saved) as Patch<S>;
+        const state = deserialize<Patch<S>>(saved);
         store.apply(state);
       }
     } catch (error) {
@@ -1,30 +1,82 @@
 import * as React from 'react';
-import type { Shoy } from '../index';
+import type { Shoy, Hash, ActionStatus, ReadableStore } from '../index';
 
 export function useSelector<S, R>(
-  store: Shoy<S>,
-  selector: (state: S) => R
+  store: ReadableStore<S>,
+  selector: (state: S) => R,
+  equalityFn: (a: R, b: R) => boolean = Object.is
 ): R {
-  const [value, setValue] = React.useState<R>(() => selector(store.current));
-  const selectorRef = React.useRef(selector);
+  const committed = React.useRef<{ value: R } | null>(null);
+
+  const subscribe = React.useCallback(
+    (onChange: () => void) =>
+      store.subscribe(selector, () => onChange(), { equals: equalityFn }),
+    [store, selector, equalityFn]
+  );
+
+  const getSnapshot = React.useMemo(() => {
+    let memo: { hash: Hash; value: R } | null = null;
+    return () => {
+      const hash = store.currentHash;
+      if (memo?.hash === hash) return memo.value;
+
+      const next = selector(store.current);
+      const prev = memo ?? committed.current;
+      const value = prev && equalityFn(prev.value, next) ? prev.value : next;
+      memo = { hash, value };
+      return value;
+    };
+  }, [store, selector, equalityFn]);
+
+  const value = React.useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
 
   React.useEffect(() => {
-    selectorRef.current = selector;
-  });
+    committed.current = { value };
+  }, [value]);
+
+  return value;
+}
+
+export function useActionStatus<S>(
+  store: Shoy<S>,
+  name?: string
+): ActionStatus {
+  const [status, setStatus] = React.useState(() => store.actionStatus(name));
 
   React.useEffect(() => {
     const update = () => {
-      const next = selectorRef.current(store.current);
-      setValue((prev) => (Object.is(prev, next) ? prev : next));
+      const next = store.actionStatus(name);
+      setStatus((prev) =>
+        prev.pending === next.pending && prev.error === next.error ? prev : next
+      );
+    };
+    update();
+    return store.subscribeActions(update);
+  }, [store, name]);
+
+  return status;
+}
+
+export function useReady<S>(store: Shoy<S>): boolean {
+  const [ready, setReady] = React.useState(() => store.status === 'ready');
+
+  React.useEffect(() => {
+    setReady(store.status === 'ready');
+    let active = true;
+    store.ready.then(
+      () => active && setReady(true),
+      () => active && setReady(false)
+    );
+    return () => {
+      active = false;
     };
-    return store.subscribe(update);
   }, [store]);
 
-  return value;
+  return ready;
 }
 
 export function useComputed<S, R>(
-  store: Shoy<S>,
+  store: ReadableStore<S>,
   compute: (state: S) => R
 ): R {
   return React.useMemo(() => compute(store.current), [store.current, compute]);
@@ -54,7 +106,7 @@ export function createMemoizedSelector<S, R>(
 }
 
 export function useQuery<S, R>(
-  store: Shoy<S>,
+  store: ReadableStore<S>,
   query: (state: S) => R
 ): R {
   return useSelector(store, query);
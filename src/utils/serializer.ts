@@ -0,0 +1,163 @@
+import { kindOf } from '../kind';
+
+const TAG = '$shoy';
+
+type Tagged = { [TAG]: string; value?: unknown };
+
+type BinaryConstructor = {
+  new (values: ArrayLike<number | bigint>): ArrayBufferView;
+};
+
+const binaryTypes: Record<string, BinaryConstructor> = {
+  Int8Array,
+  Uint8Array,
+  Uint8ClampedArray,
+  Int16Array,
+  Uint16Array,
+  Int32Array,
+  Uint32Array,
+  Float32Array,
+  Float64Array,
+  BigInt64Array: BigInt64Array as unknown as BinaryConstructor,
+  BigUint64Array: BigUint64Array as unknown as BinaryConstructor,
+};
+
+function encodeValue(value: unknown): unknown {
+  switch (typeof value) {
+    case 'undefined':
+      return { [TAG]: 'undefined' };
+    case 'bigint':
+      return { [TAG]: 'BigInt', value: value.toString() };
+    case 'number':
+      if (Number.isFinite(value) && !Object.is(value, -0)) return value;
+      return { [TAG]: 'Number', value: Object.is(value, -0) ? '-0' : String(value) };
+  }
+
+  switch (kindOf(value)) {
+    case 'primitive':
+      return value;
+    case 'array':
+      return (value as unknown[]).map(encodeValue);
+    case 'map':
+      return {
+        [TAG]: 'Map',
+        value: Array.from(value as Map<unknown, unknown>, ([k, v]) => [
+          encodeValue(k),
+          encodeValue(v),
+        ]),
+      };
+    case 'set':
+      return { [TAG]: 'Set', value: Array.from(value as Set<unknown>, encodeValue) };
+    case 'date':
+      return { [TAG]: 'Date', value: (value as Date).getTime() };
+    case 'binary': {
+      if (value instanceof DataView) {
+        const { buffer, byteOffset, byteLength } = value;
+        return {
+          [TAG]: 'DataView',
+          value: Array.from(new Uint8Array(buffer, byteOffset, byteLength)),
+        };
+      }
+      const name = (value as object).constructor.name;
+      if (!(name in binaryTypes)) {
+        throw new Error(`Unsupported binary type: ${name}`);
+      }
+      return {
+        [TAG]: name,
+        value: Array.from(value as ArrayLike<number | bigint>, (item) =>
+          typeof item === 'bigint' ? item.toString() : item
+        ),
+      };
+    }
+  }
+
+  const record = value as Record<string, unknown>;
+  const encoded: Record<string, unknown> = {};
+  for (const key of Object.keys(record)) {
+    encoded[key] = encodeValue(record[key]);
+  }
+  return TAG in record ? { [TAG]: 'Object', value: encoded } : encoded;
+}
+
+function decodeValue(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(decodeValue);
+  if (typeof value !== 'object' || value === null) return value;
+
+  if (TAG in value) {
+    const { [TAG]: type, value: payload } = value as Tagged;
+    switch (type) {
+      case 'undefined':
+        return undefined;
+      case 'BigInt':
+        return BigInt(payload as string);
+      case 'Number':
+        return Number(payload);
+      case 'Date':
+        return new Date(payload as number);
+      case 'Map':
+        return new Map(
+          (payload as [unknown, unknown][]).map(([k, v]) => [decodeValue(k), decodeValue(v)])
+        );
+      case 'Set':
+        return new Set((payload as unknown[]).map(decodeValue));
+      case 'Object':
+        return decodeObject(payload as Record<string, unknown>);
+      case 'DataView':
+        return new DataView(new Uint8Array(payload as number[]).buffer);
+    }
+    if (type in binaryTypes) {
+      const items = payload as (number | string)[];
+      return new binaryTypes[type](
+        type.startsWith('Big') ? items.map((item) => BigInt(item)) : (items as number[])
+      );
+    }
+  }
+
+  return decodeObject(value as Record<string, unknown>);
+}
+
+function decodeObject(record: Record<string, unknown>): Record<string, unknown> {
+  const decoded: Record<string, unknown> = {};
+  for (const key of Object.keys(record)) {
+    decoded[key] = decodeValue(record[key]);
+  }
+  return decoded;
+}
+
+export function serialize(value: unknown): string {
+  return JSON.stringify(encodeValue(value));
+}
+
+export function deserialize<T = unknown>(text: string): T {
+  return decodeValue(JSON.parse(text)) as T;
+}
+
+export function clone<T>(value: T): T {
+  switch (kindOf(value)) {
+    case 'primitive':
+      return value;
+    case 'array':
+      return (value as unknown[]).map(clone) as T;
+    case 'map':
+      return new Map(
+        Array.from(value as Map<unknown, unknown>, ([k, v]) => [k, clone(v)])
+      ) as T;
+    case 'set':
+      return new Set(Array.from(value as Set<unknown>, clone)) as T;
+    case 'date':
+      return new Date((value as Date).getTime()) as T;
+    case 'binary':
+      if (value instanceof DataView) {
+        const { buffer, byteOffset, byteLength } = value;
+        return new DataView(buffer.slice(byteOffset, byteOffset + byteLength)) as T;
+      }
+      return (value as unknown as { slice(): T }).slice();
+  }
+
+  const record = value as Record<string, unknown>;
+  const cloned: Record<string, unknown> = {};
+  for (const key of Object.keys(record)) {
+    cloned[key] = clone(record[key]);
+  }
+  return cloned as T;
+}
@@ -1,20 +1,27 @@
-import type { Shoy, Hash, Patch } from '../index';
+import type { StoreLike, Hash } from '../index';
 import type { SyncOptions, ConflictResolver } from './types';
+import { serialize, deserialize } from './serializer';
+import { applyOperations, diff, type Operation } from '../diff';
 
 interface SyncMessage {
   hash: Hash;
-  state: unknown;
   timestamp: number;
+  state?: unknown;
+  base?: Hash;
+  ops?: Operation[];
+  resync?: boolean;
 }
 
 class SyncManager<S> {
   private socket: WebSocket | null = null;
   private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
-  private store: Shoy<S>;
+  private store: StoreLike<S>;
   private options: Required<Pick<SyncOptions, 'reconnectInterval'>> & SyncOptions;
   private unsubscribe: (() => void) | null = null;
+  private offDispose: (() => void) | null = null;
+  private shared: { hash: Hash; state: unknown } | null = null;
 
-  constructor(store: Shoy<S>, options: SyncOptions) {
+  constructor(store: StoreLike<S>, options: SyncOptions) {
     this.store = store;
     this.options = {
       reconnectInterval: 3000,
@@ -23,6 +30,7 @@ class SyncManager<S> {
   }
 
   connect(): void {
+    this.offDispose ??= this.store.on('dispose', () => this.disconnect());
     try {
       this.socket = new WebSocket(this.options.url);
       
@@ -33,7 +41,7 @@ class SyncManager<S> {
 
       this.socket.onmessage = (event) => {
         try {
-          const message: SyncMessage = JSON.parse(event.data);
+          const message = deserialize<SyncMessage>(event.data);
           this.handleRemoteUpdate(message);
         } catch (error) {
           console.error('[Shoy Sync] Failed to parse message:', error);
@@ -56,6 +64,7 @@ class SyncManager<S> {
 
   disconnect(): void {
     if (this.socket) {
+      this.socket.onclose = null;
       this.socket.close();
       this.socket = null;
     }
@@ -67,37 +76,75 @@ class SyncManager<S> {
       this.unsubscribe();
       this.unsubscribe = null;
     }
+    if (this.offDispose) {
+      this.offDispose();
+      this.offDispose = null;
+    }
   }
 
   private startListening(): void {
-    this.unsubscribe = this.store.subscribe((hash) => {
-      if (this.socket?.readyState === WebSocket.OPEN) {
-        const message: SyncMessage = {
-          hash: this.store.currentHash,
-          state: this.store.current,
+    this.shared = null;
+    this.unsubscribe?.();
+    this.unsubscribe = this.store.on('commit', () => this.send());
+  }
+
+  private send(full = false): void {
+    if (this.socket?.readyState !== WebSocket.OPEN) return;
+
+    const hash = this.store.currentHash;
+    const state = this.store.current;
+    if (!full && this.shared?.hash === hash) return;
+
+    const message: SyncMessage = !full && this.shared
+      ? {
+          hash,
+          base: this.shared.hash,
+          ops: diff(this.shared.state, state),
           timestamp: Date.now(),
-        };
-        this.socket.send(JSON.stringify(message));
-      }
-    });
+        }
+      : { hash, state, timestamp: Date.now() };
+    this.shared = { hash, state };
+    this.socket.send(serialize(message));
+  }
+
+  private requestResync(): void {
+    if (this.socket?.readyState !== WebSocket.OPEN) return;
+    const message: SyncMessage = {
+      hash: this.store.currentHash,
+      resync: true,
+      timestamp: Date.now(),
+    };
+    this.socket.send(serialize(message));
   }
 
   private handleRemoteUpdate(message: SyncMessage): void {
+    if (message.resync) {
+      this.send(true);
+      return;
+    }
+
     const localHash = this.store.currentHash;
     
     if (localHash === message.hash) {
+      this.shared = { hash: localHash, state: this.store.current };
       return;
     }
 
-    if (this.options.conflictResolver) {
-      const resolved = this.options.conflictResolver(
-        this.store.current,
-        message.state
-      );
-      this.store.apply(resolved as Patch<S>);
-    } else {
-      this.store.apply(message.state as Patch<S>);
+    let remote = message.state;
+    if (message.ops) {
+      if (!this.shared || this.shared.hash !== message.base) {
+        this.requestResync();
+        return;
+      }
+      remote = applyOperations(this.shared.state, message.ops);
     }
+    this.shared = { hash: message.hash, state: remote };
+
+    const local = this.store.current;
+    const next = this.options.conflictResolver
+      ? this.options.conflictResolver(local, remote)
+      : remote;
+    this.store.applyJsonPatch(diff(local, next));
   }
 
   private reconnect(): void {
@@ -110,7 +157,7 @@ class SyncManager<S> {
   }
 }
 
-export function useSync<S>(store: Shoy<S>, options: SyncOptions): SyncManager<S> {
+export function useSync<S>(store: StoreLike<S>, options: SyncOptions): SyncManager<S> {
   const manager = new SyncManager(store, options);
   manager.connect();
   return manager;
@@ -1,4 +1,15 @@
-export type { Shoy, Hash, Patch } from '../index';
+import type { CommitInfo, ChangeType } from '../index';
+
+export type {
+  Shoy,
+  StoreLike,
+  Hash,
+  Patch,
+  Commit,
+  CommitInfo,
+  ChangeType,
+  ChangeEvent,
+} from '../index';
 
 export interface DevToolsOptions {
   enabled?: boolean;
@@ -10,11 +21,12 @@ export interface PersistenceOptions {
   storage?: Storage;
   throttle?: number;
   selective?: string[];
+  events?: ChangeType[];
 }
 
 export interface Middleware<T> {
-  before?: (prev: T, next: T) => T | void;
-  after?: (state: T, hash: string) => void;
+  before?: (prev: T, next: T, info?: CommitInfo) => T | void;
+  after?: (state: T, hash: string, info?: CommitInfo) => void;
 }
 
 export interface SyncOptions {
@@ -0,0 +1,148 @@
+import type { Hash } from "./index";
+import { applyOperations, diff, type Operation } from "./diff";
+import type { MemoryTracker } from "./retention";
+
+type Entry<S> =
+  | { state: S; ordinal: number }
+  | { base: Hash; ops: Operation[]; ordinal: number };
+
+export class VersionStore<S> {
+  private readonly entries = new Map<Hash, Entry<S>>();
+  private readonly dependents = new Map<Hash, Set<Hash>>();
+  private tip: Hash | undefined;
+  private cached: { hash: Hash; state: S } | undefined;
+  private count = 0;
+
+  constructor(
+    private readonly keyframeInterval: number,
+    private readonly memory: MemoryTracker,
+    private readonly freeze: (state: S) => S,
+  ) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  has(hash: Hash): boolean {
+    return this.entries.has(hash);
+  }
+
+  keys(): IterableIterator<Hash> {
+    return this.entries.keys();
+  }
+
+  *[Symbol.iterator](): IterableIterator<[Hash, S]> {
+    for (const hash of Array.from(this.entries.keys())) {
+      yield [hash, this.get(hash)!];
+    }
+  }
+
+  get(hash: Hash): S | undefined {
+    if (this.cached?.hash === hash) return this.cached.state;
+    const entry = this.entries.get(hash);
+    if (!entry) return undefined;
+    if ("state" in entry) return entry.state;
+
+    const chain: Operation[][] = [];
+    let base: Entry<S> = entry;
+    while (!("state" in base)) {
+      chain.push(base.ops);
+      base = this.entries.get(base.base)!;
+    }
+    let state = base.state;
+    for (let i = chain.length - 1; i >= 0; i--) {
+      state = applyOperations(state, chain[i]);
+    }
+
+    this.cached = { hash, state: this.freeze(state) };
+    return this.cached.state;
+  }
+
+  set(hash: Hash, state: S): void {
+    const previous = this.entries.get(hash);
+    const ordinal = previous?.ordinal ?? this.count++;
+    if (previous) this.release(hash, previous);
+    this.attach(hash, { state, ordinal });
+    if (this.cached?.hash === hash) this.cached = undefined;
+
+    const tip = this.tip;
+    this.tip = hash;
+    if (tip === undefined || tip === hash) return;
+
+    const old = this.entries.get(tip);
+    if (
+      old &&
+      "state" in old &&
+      this.keyframeInterval > 1 &&
+      old.ordinal % this.keyframeInterval !== 0
+    ) {
+      this.replace(tip, {
+        base: hash,
+        ops: diff(state, old.state),
+        ordinal: old.ordinal,
+      });
+    }
+  }
+
+  delete(hash: Hash): boolean {
+    const entry = this.entries.get(hash);
+    if (!entry) return false;
+
+    for (const dependent of Array.from(this.dependents.get(hash) ?? [])) {
+      const state = this.get(dependent)!;
+      const { ordinal } = this.entries.get(dependent)!;
+      this.replace(
+        dependent,
+        "state" in entry
+          ? { state, ordinal }
+          : {
+              base: entry.base,
+              ops: diff(this.get(entry.base), state),
+              ordinal,
+            },
+      );
+    }
+
+    this.release(hash, entry);
+    this.entries.delete(hash);
+    this.dependents.delete(hash);
+    if (this.cached?.hash === hash) this.cached = undefined;
+    if (this.tip === hash) this.tip = undefined;
+    return true;
+  }
+
+  clear(): void {
+    this.entries.forEach((entry, hash) => this.release(hash, entry));
+    this.entries.clear();
+    this.dependents.clear();
+    this.tip = undefined;
+    this.cached = undefined;
+  }
+
+  private replace(hash: Hash, entry: Entry<S>): void {
+    const previous = this.entries.get(hash);
+    this.attach(hash, entry);
+    if (previous) this.release(hash, previous);
+  }
+
+  private attach(hash: Hash, entry: Entry<S>): void {
+    this.entries.set(hash, entry);
+    if ("state" in entry) {
+      this.memory.add(entry.state);
+    } else {
+      this.memory.add(entry.ops);
+      let set = this.dependents.get(entry.base);
+      if (!set) this.dependents.set(entry.base, (set = new Set()));
+      set.add(hash);
+    }
+  }
+
+  private release(hash: Hash, entry: Entry<S>): void {
+    if ("state" in entry) {
+      this.memory.remove(entry.state);
+    } else {
+      this.memory.remove(entry.ops);
+      this.dependents.get(entry.base)?.delete(hash);
+    }
+  }
+}